@@ -4,8 +4,22 @@ import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer } from '@react-navigation/native';
 import { RootNavigator } from './src/navigation/RootNavigator';
 import { TopicExtractionService } from './src/services/openai/topicExtraction';
+import { QuizGenerationService } from './src/services/openai/quizGeneration';
+import { AnswerGradingService } from './src/services/openai/answerGrading';
+import { createLLMProvider } from './src/services/llm/createProvider';
 
-TopicExtractionService.initialize(process.env.EXPO_PUBLIC_OPENAI_API_KEY || '');
+// AI calls go through the ai-proxy edge function by default; set
+// EXPO_PUBLIC_LLM_BASE_URL/MODEL for a self-hosted OpenAI-compatible server
+// or EXPO_PUBLIC_LLM_PROVIDER=fake to run offline
+const llmProvider = createLLMProvider({
+  provider: process.env.EXPO_PUBLIC_LLM_PROVIDER,
+  apiKey: process.env.EXPO_PUBLIC_LLM_API_KEY,
+  baseUrl: process.env.EXPO_PUBLIC_LLM_BASE_URL,
+  model: process.env.EXPO_PUBLIC_LLM_MODEL,
+});
+TopicExtractionService.setProvider(llmProvider);
+QuizGenerationService.setProvider(llmProvider);
+AnswerGradingService.setProvider(llmProvider);
 export default function App() {
   return (
     <NavigationContainer>
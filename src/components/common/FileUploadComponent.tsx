@@ -15,8 +15,18 @@ const ALLOWED_TYPES = [
   'application/pdf',
   'application/msword',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/markdown',
+  'text/x-markdown',
+  'text/html',
+  'application/xhtml+xml',
 ];
 
+// Some platforms report Markdown and HTML files with a generic MIME type
+// (text/plain, application/octet-stream), so the picker shows every file and
+// validateFile accepts a known MIME type or a known extension
+const ALLOWED_EXTENSIONS = ['.pdf', '.doc', '.docx', '.txt', '.md', '.markdown', '.html', '.htm'];
+
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
 export type UploadState = 'idle' | 'uploading' | 'success' | 'error';
@@ -47,15 +57,17 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
   progress = 0,
   disabled = false,
   title = "Upload Syllabus",
-  subtitle = "Select a PDF or Word document",
+  subtitle = "Select a PDF, Word, Markdown or HTML file",
 }) => {
   const [selectedFile, setSelectedFile] = useState<UploadedFile | null>(null);
 
   // Validate file type and size
   const validateFile = (file: DocumentPicker.DocumentPickerAsset): string | null => {
     // Check file type
-    if (!ALLOWED_TYPES.includes(file.mimeType || '')) {
-      return 'Please select a PDF or Word document (.pdf, .doc, .docx)';
+    const fileName = file.name.toLowerCase();
+    const hasAllowedExtension = ALLOWED_EXTENSIONS.some(extension => fileName.endsWith(extension));
+    if (!ALLOWED_TYPES.includes(file.mimeType || '') && !hasAllowedExtension) {
+      return 'Please select a PDF, Word, text, Markdown or HTML file (.pdf, .docx, .txt, .md, .html)';
     }
 
     // Check file size
@@ -74,7 +86,7 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
 
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ALLOWED_TYPES,
+        type: '*/*',
         copyToCacheDirectory: true,
         multiple: false,
       });
@@ -117,6 +129,16 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
   };
 
+  // Short label for the selected file's format
+  const getFileTypeLabel = (file: UploadedFile): string => {
+    const fileName = file.name.toLowerCase();
+    if (file.type.includes('pdf')) return 'PDF';
+    if (file.type.includes('html') || /\.html?$/.test(fileName)) return 'HTML';
+    if (file.type.includes('markdown') || /\.(md|markdown)$/.test(fileName)) return 'Markdown';
+    if (file.type.startsWith('text/') || fileName.endsWith('.txt')) return 'Text';
+    return 'Word';
+  };
+
   // Get upload state styling and content
   const getUploadStateContent = () => {
     switch (uploadState) {
@@ -146,7 +168,7 @@ export const FileUploadComponent: React.FC<FileUploadComponentProps> = ({
           icon: selectedFile ? '📄' : '📤',
           text: selectedFile ? selectedFile.name : title,
           subtext: selectedFile 
-            ? `${formatFileSize(selectedFile.size)} • ${selectedFile.type.includes('pdf') ? 'PDF' : 'Word'}`
+            ? `${formatFileSize(selectedFile.size)} • ${getFileTypeLabel(selectedFile)}`
             : subtitle,
           style: selectedFile ? styles.selectedState : styles.idleState,
         };
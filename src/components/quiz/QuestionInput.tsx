@@ -0,0 +1,330 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
+import { QuestionResponse, QuizQuestion } from '../../types';
+
+interface QuestionInputProps {
+  question: QuizQuestion;
+  response: QuestionResponse | null;
+  onChange: (response: QuestionResponse) => void;
+  disabled?: boolean;
+}
+
+const OPTION_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+// The response a question starts with: ordering starts from the order shown,
+// matching with every prompt unmatched, everything else unanswered
+export const initialResponse = (question: QuizQuestion): QuestionResponse | null => {
+  switch (question.type) {
+    case 'ordering':
+      return { type: 'ordering', order: question.items.map((_, index) => index) };
+    case 'matching':
+      return { type: 'matching', matches: question.prompts.map(() => -1) };
+    default:
+      return null;
+  }
+};
+
+interface OptionListProps {
+  options: string[];
+  isSelected: (index: number) => boolean;
+  onPress: (index: number) => void;
+  multiple?: boolean; // checkboxes instead of letters
+  disabled: boolean;
+}
+
+const OptionList: React.FC<OptionListProps> = ({ options, isSelected, onPress, multiple = false, disabled }) => (
+  <View style={styles.options}>
+    {options.map((option, index) => (
+      <TouchableOpacity
+        key={index}
+        style={[styles.option, isSelected(index) && styles.optionSelected]}
+        onPress={() => onPress(index)}
+        disabled={disabled}
+      >
+        <Text style={[
+          styles.optionLabel,
+          multiple && styles.checkbox,
+          isSelected(index) && styles.optionLabelSelected,
+        ]}>
+          {multiple ? (isSelected(index) ? '✓' : '') : OPTION_LABELS[index] || index + 1}
+        </Text>
+        <Text style={styles.optionText}>{option}</Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+// Answer controls for each question type
+export const QuestionInput: React.FC<QuestionInputProps> = ({
+  question,
+  response,
+  onChange,
+  disabled = false,
+}) => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <OptionList
+          options={question.options}
+          isSelected={index => response?.type === 'multiple_choice' && response.selected === index}
+          onPress={index => onChange({ type: 'multiple_choice', selected: index })}
+          disabled={disabled}
+        />
+      );
+
+    case 'true_false':
+      return (
+        <OptionList
+          options={['True', 'False']}
+          isSelected={index => response?.type === 'true_false' && response.value === (index === 0)}
+          onPress={index => onChange({ type: 'true_false', value: index === 0 })}
+          disabled={disabled}
+        />
+      );
+
+    case 'multi_select': {
+      const selected = response?.type === 'multi_select' ? response.selected : [];
+      return (
+        <View>
+          <Text style={styles.hint}>Select all that apply</Text>
+          <OptionList
+            options={question.options}
+            isSelected={index => selected.includes(index)}
+            onPress={index => onChange({
+              type: 'multi_select',
+              selected: selected.includes(index)
+                ? selected.filter(value => value !== index)
+                : [...selected, index].sort((a, b) => a - b),
+            })}
+            multiple
+            disabled={disabled}
+          />
+        </View>
+      );
+    }
+
+    case 'fill_blank':
+      return (
+        <TextInput
+          style={styles.input}
+          value={response?.type === 'fill_blank' ? response.text : ''}
+          onChangeText={text => onChange({ type: 'fill_blank', text })}
+          placeholder="Type the missing word or phrase"
+          placeholderTextColor={colors.placeholder}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!disabled}
+        />
+      );
+
+    case 'short_answer':
+      return (
+        <View>
+          <Text style={styles.hint}>Graded by AI against a rubric</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={response?.type === 'short_answer' ? response.text : ''}
+            onChangeText={text => onChange({ type: 'short_answer', text })}
+            placeholder="Answer in a few sentences"
+            placeholderTextColor={colors.placeholder}
+            multiline
+            textAlignVertical="top"
+            editable={!disabled}
+          />
+        </View>
+      );
+
+    case 'ordering': {
+      const order = response?.type === 'ordering' ? response.order : question.items.map((_, index) => index);
+      const move = (position: number, offset: number) => {
+        const next = [...order];
+        [next[position], next[position + offset]] = [next[position + offset], next[position]];
+        onChange({ type: 'ordering', order: next });
+      };
+      return (
+        <View>
+          <Text style={styles.hint}>Put these in order, first at the top</Text>
+          <View style={styles.options}>
+            {order.map((itemIndex, position) => (
+              <View key={itemIndex} style={styles.option}>
+                <Text style={styles.optionLabel}>{position + 1}</Text>
+                <Text style={styles.optionText}>{question.items[itemIndex]}</Text>
+                <View style={styles.moveButtons}>
+                  <TouchableOpacity
+                    style={[styles.moveButton, position === 0 && styles.moveButtonDisabled]}
+                    onPress={() => move(position, -1)}
+                    disabled={disabled || position === 0}
+                  >
+                    <Text style={styles.moveButtonText}>▲</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.moveButton, position === order.length - 1 && styles.moveButtonDisabled]}
+                    onPress={() => move(position, 1)}
+                    disabled={disabled || position === order.length - 1}
+                  >
+                    <Text style={styles.moveButtonText}>▼</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+      );
+    }
+
+    case 'matching': {
+      const matches = response?.type === 'matching' ? response.matches : question.prompts.map(() => -1);
+      return (
+        <View style={styles.options}>
+          {question.prompts.map((prompt, promptIndex) => (
+            <View key={promptIndex} style={styles.matchRow}>
+              <Text style={styles.matchPrompt}>{prompt}</Text>
+              <View style={styles.matchChoices}>
+                {question.choices.map((choice, choiceIndex) => {
+                  const isSelected = matches[promptIndex] === choiceIndex;
+                  return (
+                    <TouchableOpacity
+                      key={choiceIndex}
+                      style={[styles.matchChoice, isSelected && styles.matchChoiceSelected]}
+                      onPress={() => onChange({
+                        type: 'matching',
+                        matches: matches.map((value, index) => (index === promptIndex ? choiceIndex : value)),
+                      })}
+                      disabled={disabled}
+                    >
+                      <Text style={[styles.matchChoiceText, isSelected && styles.matchChoiceTextSelected]}>
+                        {choice}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+      );
+    }
+  }
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  options: {
+    gap: spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  optionSelected: {
+    borderColor: colors.primary,
+    borderWidth: 2,
+  },
+  optionLabel: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.background,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    textAlign: 'center',
+    lineHeight: 28,
+    overflow: 'hidden',
+  },
+  checkbox: {
+    borderRadius: 6,
+  },
+  optionLabelSelected: {
+    backgroundColor: colors.primary,
+    color: colors.white,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+    lineHeight: 22,
+  },
+  input: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+  },
+  multilineInput: {
+    minHeight: 140,
+  },
+  moveButtons: {
+    gap: 4,
+  },
+  moveButton: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.xs,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.background,
+  },
+  moveButtonDisabled: {
+    opacity: 0.3,
+  },
+  moveButtonText: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+  },
+  matchRow: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    padding: spacing.md,
+  },
+  matchPrompt: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  matchChoices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  matchChoice: {
+    paddingVertical: 6,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    backgroundColor: colors.background,
+  },
+  matchChoiceSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  matchChoiceText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  matchChoiceTextSelected: {
+    color: colors.white,
+  },
+});
@@ -342,7 +342,7 @@ export const CompletePipelineTest: React.FC = () => {
             <Text style={styles.instructionText}>3. Use individual tests to debug specific steps</Text>
             <Text style={styles.instructionText}>4. Check processing log for detailed status</Text>
             <Text style={styles.warningText}>
-              ⚠️ Currently uses mock file reading - real PDF/Word parsing coming next!
+              ⚠️ The sample file test uses mock content - pick a real file to test PDF/Word parsing
             </Text>
           </View>
         </View>
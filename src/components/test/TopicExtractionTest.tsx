@@ -244,7 +244,7 @@ Assessment:
             <Text style={styles.instructionText}>3. Review the extracted topics and keywords</Text>
             <Text style={styles.instructionText}>4. Try "Test Sample" to use built-in sample data</Text>
             <Text style={styles.warningText}>
-              ⚠️ Requires OpenAI API key to be configured
+              ⚠️ Requires being signed in (AI proxy) or a configured LLM provider
             </Text>
           </View>
         </View>
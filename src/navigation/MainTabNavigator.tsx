@@ -5,6 +5,7 @@ import { Text, View, StyleSheet } from 'react-native';
 import { colors, spacing, fontSize } from '../constants/theme';
 import { CreateStackNavigator } from './stacks/CreateStack';
 import { CoursesStackNavigator } from './stacks/CoursesStack';
+import { QuizStackNavigator } from './stacks/QuizStack';
 import { CompletePipelineTest } from '../components/test/CompletePipeLineTest';
 
 export type MainTabParamList = {
@@ -32,13 +33,6 @@ const HomeScreen = () => (
 //   </View>
 // );
 
-const QuizzesScreen = () => (
-  <View style={styles.placeholder}>
-    <Text style={styles.placeholderText}>📝 Daily Quizzes</Text>
-    <Text>Today's quizzes from all courses!</Text>
-  </View>
-);
-
 const ProfileScreen = () => (
   <CompletePipelineTest />
 );
@@ -95,7 +89,7 @@ export const MainTabNavigator: React.FC = () => {
       />
       <Tab.Screen 
         name="Quizzes" 
-        component={QuizzesScreen}
+        component={QuizStackNavigator}
         options={{ 
           tabBarLabel: 'Quizzes',
           tabBarIcon: () => <Text style={styles.tabIcon}>📝</Text>
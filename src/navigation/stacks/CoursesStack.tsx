@@ -5,18 +5,23 @@ import { CoursesListScreen } from '../../screens/course/CoursesListScreen';
 import { CourseDetailScreen } from '../../screens/course/CourseDetailScreen';
 import { AddContentScreen } from '../../screens/course/AddContentScreen';
 import { ReviewTopicsScreen } from '../../screens/course/ReviewTopicsScreen';
+import { StudyScheduleScreen } from '../../screens/course/StudyScheduleScreen';
 import { useCourseStore } from '../../stores/courseStore';
-import { Course } from '../../types';
-import { ExtractedTopic } from '../../services/openai/topicExtraction';
+import { Course, NewCourseMaterial } from '../../types';
+import { ExtractedSchedule, ExtractedTopic } from '../../services/openai/topicExtraction';
+import { TopicService } from '../../services/supabase/topic';
 
 export type CoursesStackParamList = {
   CoursesList: undefined;
-  CourseDetail: { course: Course };
+  CourseDetail: { course: Course; focusTopicId?: string }; // focusTopicId scrolls to that topic
   AddContent: { course: Course };
   ReviewTopics: { 
     course: Course; 
     topics: ExtractedTopic[]; 
+    schedule?: ExtractedSchedule;
+    material?: NewCourseMaterial; // set when the topics come from a new upload
   };
+  StudySchedule: { course: Course };
 };
 
 const Stack = createStackNavigator<CoursesStackParamList>();
@@ -38,18 +43,45 @@ const CoursesListScreenWrapper: React.FC<CoursesListScreenWrapperProps> = ({ nav
       // Navigate to course detail
       navigation.navigate('CourseDetail', { course });
     }}
+    onSearchResultPress={(course, topicId) => {
+      // Open the course at the matching topic
+      navigation.navigate('CourseDetail', { course, focusTopicId: topicId ?? undefined });
+    }}
   />
 );
 
 // Course Detail Screen Wrapper
 const CourseDetailScreenWrapper: React.FC<any> = ({ route, navigation }) => {
-  const { course } = route.params;
+  const { course, focusTopicId } = route.params;
   
   return (
     <CourseDetailScreen 
       course={course}
+      focusTopicId={focusTopicId}
       onBack={() => navigation.goBack()}
       onDeleted={() => navigation.goBack()}
+      onAddContent={() => navigation.navigate('AddContent', { course })}
+      onEditTopics={() => {
+        // Edit every topic of the course, whichever material it came from
+        const topics = useCourseStore.getState().topics
+          .filter(topic => topic.courseId === course.id)
+          .map(topic => TopicService.topicToExtractedTopic(topic));
+        navigation.navigate('ReviewTopics', { course, topics });
+      }}
+      onEditSchedule={() => navigation.navigate('StudySchedule', { course })}
+    />
+  );
+};
+
+// Study Schedule Screen Wrapper
+const StudyScheduleScreenWrapper: React.FC<any> = ({ route, navigation }) => {
+  const { course } = route.params;
+
+  return (
+    <StudyScheduleScreen
+      course={course}
+      onBack={() => navigation.goBack()}
+      onSaved={() => navigation.goBack()}
     />
   );
 };
@@ -65,9 +97,9 @@ const AddContentScreenWrapper: React.FC<any> = ({ route, navigation }) => {
         // Skip directly to course detail
         navigation.navigate('CourseDetail', { course });
       }}
-      onComplete={(topics) => {
+      onComplete={(topics, schedule, material) => {
         // Navigate to review topics
-        navigation.navigate('ReviewTopics', { course, topics });
+        navigation.navigate('ReviewTopics', { course, topics, schedule, material });
       }}
     />
   );
@@ -75,13 +107,14 @@ const AddContentScreenWrapper: React.FC<any> = ({ route, navigation }) => {
 
 // Review Topics Screen Wrapper - UPDATED with database integration
 const ReviewTopicsScreenWrapper: React.FC<any> = ({ route, navigation }) => {
-  const { course, topics } = route.params;
+  const { course, topics, schedule, material } = route.params;
   const { saveTopicsForCourse, isLoadingTopics } = useCourseStore();
   
   return (
     <ReviewTopicsScreen 
       course={course}
       topics={topics}
+      sourceName={material?.title}
       onBack={() => {
         // Go back to Add Content
         navigation.goBack();
@@ -89,20 +122,23 @@ const ReviewTopicsScreenWrapper: React.FC<any> = ({ route, navigation }) => {
       onSave={async (finalTopics) => {
         try {
           // Show loading state
-          const success = await saveTopicsForCourse(course.id, finalTopics);
+          const success = await saveTopicsForCourse(course.id, finalTopics, schedule, material);
           
           if (success) {
             // Success - navigate to course detail
             Alert.alert(
               'Topics Saved!', 
-              `Successfully saved ${finalTopics.length} topics for "${course.name}".`,
+              material
+                ? `Added ${finalTopics.length} topics from ${material.title} to "${course.name}".`
+                : `Successfully saved ${finalTopics.length} topics for "${course.name}".`,
               [
                 { 
                   text: 'View Course', 
                   onPress: () => {
-                    // Navigate to course detail with updated course
+                    // Navigate to course detail with updated course (incl. the saved schedule)
+                    const savedCourse = useCourseStore.getState().courses.find(c => c.id === course.id);
                     navigation.navigate('CourseDetail', { 
-                      course: { ...course, topicsExtracted: true }
+                      course: { ...course, ...savedCourse, topicsExtracted: true }
                     });
                   }
                 }
@@ -173,6 +209,10 @@ export const CoursesStackNavigator: React.FC = () => {
         name="ReviewTopics" 
         component={ReviewTopicsScreenWrapper} 
       />
+      <Stack.Screen 
+        name="StudySchedule" 
+        component={StudyScheduleScreenWrapper} 
+      />
     </Stack.Navigator>
   );
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { Alert } from 'react-native';
+import { QuizzesListScreen } from '../../screens/quiz/QuizzesListScreen';
+import { TakeQuizScreen } from '../../screens/quiz/TakeQuizScreen';
+import { QuizResultsScreen } from '../../screens/quiz/QuizResultsScreen';
+import { useQuizStore } from '../../stores/quizStore';
+import { Quiz } from '../../types';
+
+export type QuizStackParamList = {
+  QuizzesList: undefined;
+  TakeQuiz: { quiz: Quiz };
+  QuizResults: { quiz: Quiz };
+};
+
+const Stack = createStackNavigator<QuizStackParamList>();
+
+// Quizzes List Screen Wrapper
+const QuizzesListScreenWrapper: React.FC<any> = ({ navigation }) => (
+  <QuizzesListScreen
+    onStartQuiz={(quiz) => navigation.navigate('TakeQuiz', { quiz })}
+  />
+);
+
+// Take Quiz Screen Wrapper - submits answers then shows results
+const TakeQuizScreenWrapper: React.FC<any> = ({ route, navigation }) => {
+  const { quiz } = route.params;
+  const { submitQuiz, isSubmitting } = useQuizStore();
+
+  return (
+    <TakeQuizScreen
+      quiz={quiz}
+      isSubmitting={isSubmitting}
+      onExit={() => navigation.goBack()}
+      onSubmit={async (answers) => {
+        const completedQuiz = await submitQuiz(quiz, answers);
+
+        if (completedQuiz) {
+          // Replace so "back" from results doesn't return to a finished quiz
+          navigation.replace('QuizResults', { quiz: completedQuiz });
+        } else {
+          Alert.alert(
+            'Submit Failed',
+            'Failed to submit your answers. Please try again.',
+            [{ text: 'OK' }]
+          );
+        }
+      }}
+    />
+  );
+};
+
+// Quiz Results Screen Wrapper
+const QuizResultsScreenWrapper: React.FC<any> = ({ route, navigation }) => {
+  const { quiz } = route.params;
+
+  return (
+    <QuizResultsScreen
+      quiz={quiz}
+      onDone={() => navigation.popToTop()}
+    />
+  );
+};
+
+// Quiz Stack Navigator
+export const QuizStackNavigator: React.FC = () => {
+  return (
+    <Stack.Navigator
+      initialRouteName="QuizzesList"
+      screenOptions={{
+        headerShown: false
+      }}
+    >
+      <Stack.Screen
+        name="QuizzesList"
+        component={QuizzesListScreenWrapper}
+      />
+      <Stack.Screen
+        name="TakeQuiz"
+        component={TakeQuizScreenWrapper}
+        options={{ gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="QuizResults"
+        component={QuizResultsScreenWrapper}
+      />
+    </Stack.Navigator>
+  );
+};
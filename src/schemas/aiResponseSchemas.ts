@@ -0,0 +1,391 @@
+import { z } from 'zod';
+
+// Validation schemas for JSON returned by the AI services. The envelope
+// schemas only check the overall shape so that one bad entry can be dropped
+// (or repaired) without failing the whole batch.
+
+const OPTION_LETTERS = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+// Trimmed, non-empty, case-insensitively unique strings; anything else is dropped
+const cleanStringList = z
+  .array(z.unknown())
+  .catch([])
+  .transform(items => {
+    const seen = new Set<string>();
+    return items
+      .map(item => (typeof item === 'string' || typeof item === 'number' ? String(item).trim() : ''))
+      .filter(item => {
+        const key = item.toLowerCase();
+        if (!item || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  });
+
+// Model output is untyped: objects are read field by field as unknown values
+type RawObject = { [field: string]: unknown };
+
+const isRawObject = (value: unknown): value is RawObject => !!value && typeof value === 'object';
+
+const firstString = (...values: unknown[]): unknown =>
+  values.find(value => typeof value === 'string' && value.trim()) ?? values[0];
+
+// Models sometimes wrap the list in a differently named key or return it bare.
+// `extra` describes optional fields that sit next to the list.
+const envelope = <K extends string, S extends z.ZodRawShape = {}>(key: K, aliases: string[], extra: S = {} as S) =>
+  z.preprocess(
+    value => {
+      if (Array.isArray(value)) return { [key]: value };
+      if (isRawObject(value) && !(key in value)) {
+        const alias = aliases.find(name => Array.isArray(value[name]));
+        if (alias) return { ...value, [key]: value[alias] };
+      }
+      return value;
+    },
+    z.object({ ...extra, [key]: z.array(z.unknown()) } as S & Record<K, z.ZodArray<z.ZodUnknown>>)
+  );
+
+// Calendar dates as YYYY-MM-DD; anything unparseable becomes null
+const isoDate = z.preprocess(
+  value => (typeof value === 'string' ? value.trim().slice(0, 10) : value),
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine(value => !isNaN(Date.parse(value)))
+    .nullable()
+    .catch(null)
+);
+
+// "Week 8", "8" or 8
+const weekNumber = z.preprocess(
+  value => (typeof value === 'string' ? Number(/\d+/.exec(value)?.[0]) : value),
+  z.number().int().min(1).max(60).nullable().catch(null)
+);
+
+// [1, 2], "1-2", "Week 3-4", 5 or { start, end }
+const weekRange = z.preprocess(
+  value => {
+    if (typeof value === 'number') return { start: value, end: value };
+    if (Array.isArray(value)) return { start: Number(value[0]), end: Number(value[value.length - 1]) };
+    if (typeof value === 'string') {
+      const match = /(\d+)(?:\s*(?:-|–|to|through)\s*(\d+))?/.exec(value);
+      return match ? { start: Number(match[1]), end: Number(match[2] ?? match[1]) } : value;
+    }
+    return value;
+  },
+  z
+    .object({ start: z.number().int().min(1).max(60), end: z.number().int().min(1).max(60) })
+    .refine(range => range.end >= range.start)
+    .optional()
+    .catch(undefined)
+);
+
+// ==========================================
+// TOPIC EXTRACTION
+// ==========================================
+
+export const topicsResponseSchema = envelope('topics', ['Topics', 'units', 'items', 'data'], {
+  startDate: isoDate.optional(),
+  // Validated entry by entry by the caller, like the topics
+  assessments: z.array(z.unknown()).catch([]).optional(),
+});
+
+export const extractedTopicSchema = z.preprocess(
+  topic => {
+    if (typeof topic === 'string') return { title: topic }; // bare list of titles
+    if (!isRawObject(topic)) return topic;
+    return {
+      ...topic,
+      title: firstString(topic.title, topic.name, topic.topic),
+      keywords: typeof topic.keywords === 'string' ? topic.keywords.split(/[,;]/) : topic.keywords ?? topic.concepts,
+      learningObjectives: topic.learningObjectives ?? topic.objectives,
+      subtopics: topic.subtopics ?? topic.children,
+      weeks: topic.weeks ?? topic.week,
+    };
+  },
+  z.object({
+    title: z.string().trim().min(1, 'Topic title is required').max(200, 'Topic title is too long'),
+    keywords: cleanStringList.optional(),
+    learningObjectives: cleanStringList.optional(),
+    // Validated entry by entry by the caller, like the top-level list
+    subtopics: z.array(z.unknown()).catch([]).optional(),
+    weeks: weekRange,
+  })
+);
+
+export type ExtractedTopicData = z.infer<typeof extractedTopicSchema>;
+
+const ASSESSMENT_TYPES = ['exam', 'midterm', 'final', 'quiz', 'assignment', 'project', 'other'] as const;
+
+// Use the model's type when it is one we know, otherwise infer it from the wording
+const toAssessmentType = (type: unknown, title: unknown): string => {
+  if (typeof type === 'string' && (ASSESSMENT_TYPES as readonly string[]).includes(type.toLowerCase())) {
+    return type.toLowerCase();
+  }
+  const text = `${typeof type === 'string' ? type : ''} ${typeof title === 'string' ? title : ''}`.toLowerCase();
+  if (/mid-?term/.test(text)) return 'midterm';
+  if (/final (exam|test)|final$/.test(text)) return 'final';
+  if (/exam|test/.test(text)) return 'exam';
+  if (/quiz/.test(text)) return 'quiz';
+  if (/project|presentation/.test(text)) return 'project';
+  if (/assignment|homework|problem set|lab|essay|paper|report/.test(text)) return 'assignment';
+  return 'other';
+};
+
+export const assessmentSchema = z.preprocess(
+  assessment => {
+    if (!isRawObject(assessment)) return assessment;
+    const title = firstString(assessment.title, assessment.name);
+    return {
+      ...assessment,
+      title,
+      type: toAssessmentType(assessment.type, title),
+      date: assessment.date ?? assessment.dueDate ?? null,
+      week: assessment.week ?? null,
+    };
+  },
+  z.object({
+    title: z.string().trim().min(1, 'Assessment title is required').max(200),
+    type: z.enum(ASSESSMENT_TYPES),
+    date: isoDate,
+    week: weekNumber,
+  })
+);
+
+// ==========================================
+// QUIZ GENERATION
+// ==========================================
+
+export const questionsResponseSchema = envelope('questions', ['Questions', 'quiz', 'items', 'data']);
+
+// Accept the correct answer as an index, a letter ("B") or the option text
+const normalizeCorrectAnswer = (value: unknown, options: unknown): unknown => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const letter = OPTION_LETTERS.indexOf(trimmed.toLowerCase().replace(/[).:]$/, ''));
+  if (letter !== -1) return letter;
+
+  if (Array.isArray(options)) {
+    const index = options.findIndex(
+      option => typeof option === 'string' && option.trim().toLowerCase() === trimmed.toLowerCase()
+    );
+    if (index !== -1) return index;
+  }
+  return value;
+};
+
+const QUESTION_TYPES = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'fill_blank',
+  'ordering',
+  'matching',
+  'short_answer',
+] as const;
+
+// Other names models use for the question types, after lowercasing and
+// turning spaces, dashes and slashes into underscores
+const QUESTION_TYPE_ALIASES: { [alias: string]: (typeof QUESTION_TYPES)[number] } = {
+  mcq: 'multiple_choice',
+  single_choice: 'multiple_choice',
+  true_or_false: 'true_false',
+  truefalse: 'true_false',
+  boolean: 'true_false',
+  multiple_select: 'multi_select',
+  multiple_answer: 'multi_select',
+  select_all: 'multi_select',
+  select_all_that_apply: 'multi_select',
+  fill_in_the_blank: 'fill_blank',
+  fill_in_blank: 'fill_blank',
+  cloze: 'fill_blank',
+  order: 'ordering',
+  sequence: 'ordering',
+  match: 'matching',
+  short: 'short_answer',
+  open_ended: 'short_answer',
+  free_response: 'short_answer',
+};
+
+// Questions without a type are the original single-answer multiple choice
+const toQuestionType = (value: unknown): unknown => {
+  if (value === undefined || value === null) return 'multiple_choice';
+  if (typeof value !== 'string') return value;
+  const key = value.trim().toLowerCase().replace(/[\s\-/]+/g, '_');
+  return QUESTION_TYPE_ALIASES[key] ?? key;
+};
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    if (['true', 't', 'yes'].includes(text)) return true;
+    if (['false', 'f', 'no'].includes(text)) return false;
+  }
+  return value;
+};
+
+const toList = (value: unknown): unknown => (Array.isArray(value) || value == null ? value : [value]);
+
+// Blanks written as [blank], {blank} or two or more underscores become ___
+const markBlank = (text: unknown): unknown =>
+  typeof text === 'string' ? text.replace(/\[blank\]|\{blank\}|_{2,}/gi, '___') : text;
+
+// Pairs as [{ prompt, match }], [["term", "definition"]] or { "term": "definition" }
+const toPairs = (value: unknown): unknown => {
+  const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : value;
+  if (!Array.isArray(entries)) return entries;
+  return entries.map(pair => {
+    if (Array.isArray(pair)) return { prompt: pair[0], match: pair[1] };
+    if (!isRawObject(pair)) return pair;
+    return {
+      prompt: firstString(pair.prompt, pair.left, pair.term, pair.item),
+      match: firstString(pair.match, pair.right, pair.definition, pair.answer),
+    };
+  });
+};
+
+const uniqueCaseInsensitive = (items: string[]): boolean =>
+  new Set(items.map(item => item.toLowerCase())).size === items.length;
+
+const nonEmptyString = z.string().trim().min(1);
+
+const questionBase = {
+  question: z.string().trim().min(1, 'Question text is required'),
+  topicNumber: z.number().int().min(1),
+  explanation: z.string().trim().optional().catch(undefined),
+  difficulty: z.enum(['easy', 'medium', 'hard']).catch('medium'),
+  source: z.string().optional().catch(undefined),
+};
+
+// One schema per question type; `optionCount` is the number of options a
+// multiple choice question must have, and the minimum for multi-select
+export const createQuizQuestionSchema = (optionCount: number) =>
+  z.preprocess(
+    question => {
+      if (!isRawObject(question)) return question;
+      const type = toQuestionType(question.type ?? question.questionType);
+      // Options sometimes come back as { "A": "...", "B": "..." }
+      const options = isRawObject(question.options) && !Array.isArray(question.options)
+        ? Object.values(question.options)
+        : question.options;
+      const answer = question.correctAnswer ?? question.answer;
+      const correctAnswers = question.correctAnswers ?? answer;
+      const text = firstString(question.question, question.prompt, question.text);
+      const source = question.source ?? question.sourcePassage ?? question.passage;
+      return {
+        ...question,
+        type,
+        question: type === 'fill_blank' ? markBlank(text) : text,
+        options,
+        correctAnswer: type === 'true_false' ? toBoolean(answer) : normalizeCorrectAnswer(answer, options),
+        correctAnswers: Array.isArray(correctAnswers)
+          ? correctAnswers.map((value: unknown) => normalizeCorrectAnswer(value, options))
+          : question.correctAnswers,
+        acceptedAnswers: toList(question.acceptedAnswers ?? question.answers ?? answer),
+        items: question.items ?? question.steps ?? question.correctOrder,
+        pairs: toPairs(question.pairs ?? question.matches),
+        rubric: Array.isArray(question.rubric) ? question.rubric.join('; ') : question.rubric ?? question.criteria,
+        sampleAnswer: firstString(question.sampleAnswer, question.modelAnswer, answer),
+        topicNumber: typeof question.topicNumber === 'string' ? Number(question.topicNumber) : question.topicNumber,
+        difficulty: typeof question.difficulty === 'string' ? question.difficulty.toLowerCase() : question.difficulty,
+        // Passage label such as "S2", sometimes written "[S2]" or "s2"
+        source: typeof source === 'string' ? source.replace(/[[\]\s]/g, '').toUpperCase() : undefined,
+      };
+    },
+    z
+      .discriminatedUnion('type', [
+        z.object({
+          ...questionBase,
+          type: z.literal('multiple_choice'),
+          options: z.array(z.string().trim().min(1, 'Options cannot be empty')).length(optionCount),
+          correctAnswer: z.number().int().min(0).max(optionCount - 1),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('true_false'),
+          correctAnswer: z.boolean(),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('multi_select'),
+          options: z.array(z.string().trim().min(1, 'Options cannot be empty')).min(optionCount).max(OPTION_LETTERS.length),
+          correctAnswers: z.array(z.number().int().min(0)).min(1),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('fill_blank'),
+          question: questionBase.question.refine(text => text.includes('___'), 'Question must contain a ___ blank'),
+          acceptedAnswers: cleanStringList.pipe(z.array(z.string()).min(1, 'An accepted answer is required')),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('ordering'),
+          // In the correct order; shuffled for display by the caller
+          items: cleanStringList.pipe(z.array(z.string()).min(3).max(8)),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('matching'),
+          pairs: z.array(z.object({ prompt: nonEmptyString, match: nonEmptyString })).min(2).max(6),
+        }),
+        z.object({
+          ...questionBase,
+          type: z.literal('short_answer'),
+          rubric: z.string().trim().min(1, 'A grading rubric is required'),
+          sampleAnswer: z.string().trim().min(1, 'A sample answer is required'),
+        }),
+      ])
+      // Duplicates make the correct answer ambiguous
+      .superRefine((question, context) => {
+        const fail = (message: string) => context.addIssue({ code: z.ZodIssueCode.custom, message });
+        switch (question.type) {
+          case 'multiple_choice':
+            if (!uniqueCaseInsensitive(question.options)) fail('Options must be distinct');
+            break;
+          case 'multi_select':
+            if (!uniqueCaseInsensitive(question.options)) fail('Options must be distinct');
+            if (new Set(question.correctAnswers).size !== question.correctAnswers.length
+              || question.correctAnswers.some(index => index >= question.options.length)) {
+              fail('Correct answers must be distinct option indexes');
+            }
+            break;
+          case 'matching':
+            if (!uniqueCaseInsensitive(question.pairs.map(pair => pair.prompt))
+              || !uniqueCaseInsensitive(question.pairs.map(pair => pair.match))) {
+              fail('Matching pairs must be distinct');
+            }
+            break;
+        }
+      })
+  );
+
+export type QuizQuestionData = z.infer<ReturnType<typeof createQuizQuestionSchema>>;
+
+// ==========================================
+// ANSWER GRADING
+// ==========================================
+
+export const gradesResponseSchema = envelope('grades', ['Grades', 'results', 'answers', 'data']);
+
+// Score out of 100 (or as a 0-1 fraction) with feedback for the student
+export const answerGradeSchema = z.preprocess(
+  grade => {
+    if (!isRawObject(grade)) return grade;
+    const score = typeof grade.score === 'string' ? Number(grade.score.replace('%', '')) : grade.score;
+    return {
+      ...grade,
+      answerNumber: typeof grade.answerNumber === 'string' ? Number(grade.answerNumber) : grade.answerNumber,
+      score: typeof score === 'number' && score > 0 && score <= 1 && !Number.isInteger(score) ? score * 100 : score,
+      feedback: firstString(grade.feedback, grade.comment, grade.reason),
+    };
+  },
+  z.object({
+    answerNumber: z.number().int().min(1),
+    score: z.number().min(0).max(100),
+    feedback: z.string().trim().optional().catch(undefined),
+  })
+);
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Study schedule preferences validation schema
+export const studyScheduleSchema = z.object({
+  studyDays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1, 'Select at least one study day')
+    .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)), // Dedupe and keep week order
+
+  preferredTime: z
+    .string()
+    .min(1, 'Preferred time is required')
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM format (e.g. 18:30)'),
+
+  quizFrequency: z.enum(['daily', 'every_other_day', 'weekly'], {
+    errorMap: () => ({ message: 'Choose how often you want quizzes' }),
+  }),
+});
+
+// Type inference from schema
+export type StudyScheduleFormData = z.infer<typeof studyScheduleSchema>;
+
+// Form field names for consistent referencing
+export const STUDY_SCHEDULE_FORM_FIELDS = {
+  STUDY_DAYS: 'studyDays',
+  PREFERRED_TIME: 'preferredTime',
+  QUIZ_FREQUENCY: 'quizFrequency',
+} as const;
+
+// Defaults for users who haven't set preferences yet
+export const DEFAULT_STUDY_SCHEDULE: StudyScheduleFormData = {
+  studyDays: [1, 2, 3, 4, 5],
+  preferredTime: '18:00',
+  quizFrequency: 'daily',
+};
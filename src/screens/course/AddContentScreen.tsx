@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,20 +9,28 @@ import {
   Alert,
 } from 'react-native';
 import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
-import { Course } from '../../types';
-import { ExtractedTopic } from '../../services/openai/topicExtraction';
+import { Course, MaterialKind, NewCourseMaterial } from '../../types';
+import { ExtractedSchedule, ExtractedTopic } from '../../services/openai/topicExtraction';
 import { FileUploadComponent, UploadedFile, UploadState } from '../../components/common/FileUploadComponent';
 import { FileReaderService } from '../../services/files/fileReader';
 import { TopicExtractionService } from '../../services/openai/topicExtraction';
+import { PassageSplitter } from '../../services/text/passages';
 
 interface AddContentScreenProps {
   course: Course;
   onSkip: () => void;
-  onComplete: (topics: ExtractedTopic[]) => void;
+  onComplete: (topics: ExtractedTopic[], schedule?: ExtractedSchedule, material?: NewCourseMaterial) => void;
 }
 
 type ProcessingStep = 'idle' | 'reading' | 'extracting' | 'complete';
 
+const MATERIAL_KINDS: { kind: MaterialKind; label: string }[] = [
+  { kind: 'syllabus', label: 'Syllabus' },
+  { kind: 'lecture_notes', label: 'Lecture notes' },
+  { kind: 'slides', label: 'Slides' },
+  { kind: 'reading', label: 'Reading' },
+];
+
 export const AddContentScreen: React.FC<AddContentScreenProps> = ({
   course,
   onSkip,
@@ -37,6 +45,11 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
   const [processingStep, setProcessingStep] = useState<ProcessingStep>('idle');
   const [uploadState, setUploadState] = useState<UploadState>('idle');
   const [progress, setProgress] = useState(0);
+  // A course usually starts from its syllabus; later uploads are other material
+  const [materialKind, setMaterialKind] = useState<MaterialKind>(
+    course?.topicsExtracted ? 'lecture_notes' : 'syllabus'
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Handle file selection
   const handleFileSelected = (file: UploadedFile) => {
@@ -45,13 +58,16 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
     setProcessingStep('idle');
   };
 
-  // Process uploaded syllabus
-  const processSyllabus = async () => {
+  // Process the uploaded document
+  const processMaterial = async () => {
     if (!selectedFile) {
-      Alert.alert('No File', 'Please select a syllabus file first');
+      Alert.alert('No File', 'Please select a file first');
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setUploadState('uploading');
     setProcessingStep('reading');
     setProgress(0);
@@ -68,6 +84,10 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
 
       const fileResult = await FileReaderService.readFileText(fileInfo);
       
+      if (abortController.signal.aborted) {
+        return;
+      }
+
       if (!fileResult.success || !fileResult.text) {
         throw new Error(fileResult.error || 'Failed to read file content');
       }
@@ -76,7 +96,14 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
       setProcessingStep('extracting');
       setProgress(60);
 
-      const topicsResult = await TopicExtractionService.extractTopics(fileResult.text);
+      const topicsResult = await TopicExtractionService.extractTopics(fileResult.text, {
+        signal: abortController.signal,
+      });
+
+      // Cancelled from the UI; state was already reset by handleCancel
+      if (topicsResult.cancelled || abortController.signal.aborted) {
+        return;
+      }
       
       if (!topicsResult.success || !topicsResult.topics) {
         throw new Error(topicsResult.error || 'Failed to extract topics');
@@ -87,14 +114,36 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
       setProcessingStep('complete');
       setUploadState('success');
       
+      // Mention partial coverage when some parts of a long syllabus failed
+      const coverage = topicsResult.metadata?.coverage ?? 100;
+      const coverageNote = coverage < 100
+        ? `\n\nOnly ${coverage}% of the syllabus could be analyzed, so some topics may be missing.`
+        : '';
+      // Only a syllabus sets the course schedule; dates in notes or slides are
+      // usually examples rather than the course's own deadlines
+      const schedule = materialKind === 'syllabus' ? topicsResult.schedule : undefined;
+      const material: NewCourseMaterial = {
+        title: selectedFile.name,
+        kind: materialKind,
+        fileType: selectedFile.type,
+        fileSize: selectedFile.size || null,
+        fileUri: selectedFile.uri,
+        // Kept with the course so quiz questions can cite the material
+        passages: PassageSplitter.split(fileResult.text),
+      };
+      const assessmentCount = schedule?.assessments.length ?? 0;
+      const assessmentNote = assessmentCount > 0
+        ? ` and ${assessmentCount} assessment${assessmentCount !== 1 ? 's' : ''}`
+        : '';
+
       // Show success message and auto-navigate
       Alert.alert(
         'Success!', 
-        `Extracted ${topicsResult.topics.length} topics from your syllabus.`,
+        `Extracted ${topicsResult.topics.length} topics${assessmentNote} from ${selectedFile.name}.${coverageNote}`,
         [
           { 
             text: 'Review Topics', 
-            onPress: () => onComplete(topicsResult.topics)
+            onPress: () => onComplete(topicsResult.topics, schedule, material)
           }
         ]
       );
@@ -103,10 +152,23 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
       setProcessingStep('idle');
       setUploadState('error');
       setProgress(0);
-      Alert.alert('Processing Failed', error.message || 'Failed to process syllabus');
+      Alert.alert('Processing Failed', error.message || 'Failed to process file');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  // Stop an in-flight extraction (aborts the AI request and any retries)
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setProcessingStep('idle');
+    setUploadState('idle');
+    setProgress(0);
+  };
+
   // Skip content addition
   const handleSkip = () => {
     Alert.alert(
@@ -134,7 +196,7 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
           <View style={styles.header}>
             <Text style={styles.title}>Add Course Content</Text>
             <Text style={styles.subtitle}>
-              Upload your syllabus to automatically extract course topics
+              Upload a syllabus, lecture notes, slides or readings to extract course topics
             </Text>
             <View style={styles.courseInfo}>
               <Text style={styles.courseLabel}>Adding content to:</Text>
@@ -146,25 +208,41 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
 
           {/* File Upload Section */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Upload Syllabus</Text>
+            <Text style={styles.sectionTitle}>Upload Material</Text>
             <Text style={styles.sectionDescription}>
-              Select a PDF or Word document containing your course syllabus. 
-              Our AI will extract the main topics and learning objectives.
+              Select a PDF, Word, Markdown or HTML file. Each file is processed on its own 
+              and its topics are added to the course. Our AI will extract the main topics 
+              and learning objectives.
             </Text>
+
+            <View style={styles.kindRow}>
+              {MATERIAL_KINDS.map(option => (
+                <TouchableOpacity
+                  key={option.kind}
+                  style={[styles.kindChip, materialKind === option.kind && styles.kindChipSelected]}
+                  onPress={() => setMaterialKind(option.kind)}
+                  disabled={isProcessing}
+                >
+                  <Text style={[styles.kindChipText, materialKind === option.kind && styles.kindChipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
             
             <FileUploadComponent
               onFileSelected={handleFileSelected}
               uploadState={uploadState}
               progress={progress}
-              title="Upload Course Syllabus"
-              subtitle="Select PDF or Word document"
+              title="Upload Course Material"
+              subtitle="Select PDF, Word, Markdown or HTML file"
               disabled={isProcessing}
             />
             
             {selectedFile && processingStep === 'idle' && (
               <TouchableOpacity
                 style={styles.processButton}
-                onPress={processSyllabus}
+                onPress={processMaterial}
               >
                 <Text style={styles.processButtonText}>Extract Topics</Text>
               </TouchableOpacity>
@@ -179,6 +257,12 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
                 <Text style={styles.processingSubtext}>
                   This may take a few moments
                 </Text>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={handleCancel}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
               </View>
             )}
           </View>
@@ -187,21 +271,24 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Alternative Options</Text>
             
-            <TouchableOpacity 
-              style={styles.manualButton} 
-              onPress={handleAddManually}
-              disabled={isProcessing}
-            >
-              <View style={styles.optionContent}>
-                <Text style={styles.optionIcon}>✏️</Text>
-                <View style={styles.optionText}>
-                  <Text style={styles.optionTitle}>Add Topics Manually</Text>
-                  <Text style={styles.optionDescription}>
-                    Create course topics yourself without uploading a file
-                  </Text>
+            {/* Courses with topics edit them from the course details instead */}
+            {!course?.topicsExtracted && (
+              <TouchableOpacity 
+                style={styles.manualButton} 
+                onPress={handleAddManually}
+                disabled={isProcessing}
+              >
+                <View style={styles.optionContent}>
+                  <Text style={styles.optionIcon}>✏️</Text>
+                  <View style={styles.optionText}>
+                    <Text style={styles.optionTitle}>Add Topics Manually</Text>
+                    <Text style={styles.optionDescription}>
+                      Create course topics yourself without uploading a file
+                    </Text>
+                  </View>
                 </View>
-              </View>
-            </TouchableOpacity>
+              </TouchableOpacity>
+            )}
 
             <TouchableOpacity 
               style={styles.skipButton} 
@@ -223,8 +310,9 @@ export const AddContentScreen: React.FC<AddContentScreenProps> = ({
           {/* Help Text */}
           <View style={styles.helpContainer}>
             <Text style={styles.helpTitle}>💡 Tips for Best Results</Text>
-            <Text style={styles.helpText}>• Upload your official course syllabus for best topic extraction</Text>
-            <Text style={styles.helpText}>• PDF and Word documents work best</Text>
+            <Text style={styles.helpText}>• Start with your official course syllabus: it also sets the course schedule</Text>
+            <Text style={styles.helpText}>• Add lecture notes, slides and readings one file at a time</Text>
+            <Text style={styles.helpText}>• PDF, Word, Markdown and HTML files are supported</Text>
             <Text style={styles.helpText}>• Clear, text-based documents give better results than scanned images</Text>
             <Text style={styles.helpText}>• You can always edit the extracted topics in the next step</Text>
           </View>
@@ -299,6 +387,32 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: spacing.md,
   },
+  kindRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  kindChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    backgroundColor: colors.white,
+  },
+  kindChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  kindChipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  kindChipTextSelected: {
+    color: colors.white,
+    fontWeight: '600',
+  },
   processButton: {
     backgroundColor: colors.secondary,
     paddingVertical: spacing.md,
@@ -330,6 +444,19 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     color: colors.textSecondary,
   },
+  cancelButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: borderRadius.md,
+  },
+  cancelButtonText: {
+    color: colors.accent,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
   manualButton: {
     backgroundColor: colors.white,
     borderWidth: 1,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,25 +8,45 @@ import {
   SafeAreaView,
   ScrollView,
   Alert,
+  Linking,
 } from 'react-native';
 import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
 import { useCourseStore } from '../../stores/courseStore';
-import { Course, Topic } from '../../types';
+import { Course, CourseMaterial, MaterialKind, ReviewState } from '../../types';
 import { createCourseSchema, CreateCourseFormData } from '../../schemas/courseSchema';
 import { TopicService } from '../../services/supabase/topic';
+import { CourseService } from '../../services/supabase/course';
+import { ReviewService } from '../../services/supabase/review';
+import { PacingEngine, PacingStatus } from '../../services/scheduling/pacing';
+import { CourseCalendar } from '../../services/scheduling/courseCalendar';
+import { getOutlineNumbers, isSubtopic } from '../../services/topics/topicTree';
 
 interface CourseDetailScreenProps {
   course: Course;
+  focusTopicId?: string; // topic to scroll to and highlight, e.g. from search
   onBack: () => void;
   onDeleted: () => void;
   onAddContent?: () => void;
+  onEditTopics?: () => void;
+  onEditSchedule?: () => void;
 }
 
+const MATERIAL_KIND_LABELS: Record<MaterialKind, string> = {
+  syllabus: 'Syllabus',
+  lecture_notes: 'Lecture notes',
+  slides: 'Slides',
+  reading: 'Reading',
+  other: 'Document',
+};
+
 export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
   course,
+  focusTopicId,
   onBack,
   onDeleted,
   onAddContent,
+  onEditTopics,
+  onEditSchedule,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<CreateCourseFormData>({
@@ -35,6 +55,13 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
     description: course.description || '',
   });
   const [errors, setErrors] = useState<Partial<Record<keyof CreateCourseFormData, string>>>({});
+  const [reviewStates, setReviewStates] = useState<ReviewState[]>([]);
+
+  // Scroll position of the focused topic: its card sits in the topic list,
+  // which sits in the topics section, so the offsets add up once all three
+  // have been laid out
+  const scrollViewRef = useRef<ScrollView>(null);
+  const focusLayout = useRef<{ section?: number; list?: number; card?: number; done: boolean }>({ done: false });
 
   const { 
     updateCourse, 
@@ -44,7 +71,10 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
     isLoadingTopics,
     fetchTopicsForCourse,
     topicError,
-    clearTopicError 
+    clearTopicError,
+    materials,
+    fetchMaterialsForCourse,
+    deleteMaterial,
   } = useCourseStore();
 
   // Fetch topics when component mounts or course changes
@@ -54,6 +84,81 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
     }
   }, [course.id, course.topicsExtracted, fetchTopicsForCourse]);
 
+  useEffect(() => {
+    focusLayout.current = { done: false };
+  }, [focusTopicId]);
+
+  const scrollToFocusedTopic = () => {
+    const { section, list, card, done } = focusLayout.current;
+    if (done || section === undefined || list === undefined || card === undefined) return;
+    focusLayout.current.done = true;
+    scrollViewRef.current?.scrollTo({ y: Math.max(0, section + list + card - spacing.md), animated: true });
+  };
+
+  // Fetch the documents the topics were extracted from
+  useEffect(() => {
+    if (course.topicsExtracted) {
+      fetchMaterialsForCourse(course.id);
+    }
+  }, [course.id, course.topicsExtracted, fetchMaterialsForCourse]);
+
+  // Load review history for pacing
+  useEffect(() => {
+    if (!course.topicsExtracted) return;
+
+    ReviewService.getReviewStatesForCourse(course.id).then(response => {
+      if (response.success && response.data) {
+        setReviewStates(response.data);
+      }
+    });
+  }, [course.id, course.topicsExtracted]);
+
+  const pacing = useMemo(() => PacingEngine.computePacing({
+    course,
+    topics: topics.filter(topic => topic.courseId === course.id),
+    reviewStates,
+    examDates: CourseCalendar.getExamDates(course),
+    now: new Date(),
+  }), [course, topics, reviewStates]);
+
+  const outlineNumbers = useMemo(() => getOutlineNumbers(topics), [topics]);
+
+  const topicWeeks = useMemo(
+    () => new Map((course.schedule?.topicWeeks || []).map(entry => [entry.topicId, entry])),
+    [course.schedule]
+  );
+  const keyDates = useMemo(() => CourseCalendar.getDatedAssessments(course), [course]);
+
+  const courseMaterials = useMemo(
+    () => materials.filter(material => material.courseId === course.id),
+    [materials, course.id]
+  );
+  const materialTitles = useMemo(
+    () => new Map(courseMaterials.map(material => [material.id, material.title])),
+    [courseMaterials]
+  );
+
+  const formatWeeks = (startWeek: number, endWeek: number): string =>
+    startWeek === endWeek ? `Week ${startWeek}` : `Weeks ${startWeek}-${endWeek}`;
+
+  const getPacingLabel = (status: PacingStatus): string => {
+    switch (status) {
+      case 'behind': return '⚠️ Behind schedule';
+      case 'ahead': return '🚀 Ahead of schedule';
+      case 'ended': return '🏁 Course ended';
+      default: return '✅ On track';
+    }
+  };
+
+  const getPacingColor = (status: PacingStatus): string => {
+    switch (status) {
+      case 'behind': return colors.accent;
+      case 'ahead': return colors.secondary;
+      case 'ended': return colors.textLight;
+      default: return colors.primary;
+    }
+  };
+
   // Calculate course status
   const getCourseStatus = () => {
     const end = new Date(course.endDate);
@@ -158,19 +263,56 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
     }
   };
 
+  const handleEditTopics = () => {
+    if (onEditTopics) {
+      onEditTopics();
+    } else {
+      handleAddContent();
+    }
+  };
+
+  // Remove a material and every topic extracted from it
+  const handleRemoveMaterial = (material: CourseMaterial) => {
+    const topicCount = topics.filter(topic => topic.materialId === material.id).length;
+    Alert.alert(
+      'Remove Material',
+      `Remove "${material.title}" and the ${topicCount} topic${topicCount !== 1 ? 's' : ''} extracted from it? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteMaterial(material.id);
+            if (!success) {
+              Alert.alert('Error', 'Failed to remove material');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Open the uploaded syllabus through a short-lived link
+  const handleViewSyllabus = async () => {
+    if (!course.syllabusUrl) return;
+
+    const response = await CourseService.getSyllabusLink(course.syllabusUrl);
+    if (!response.success || !response.data) {
+      Alert.alert('Error', response.error?.message || 'Failed to open syllabus');
+      return;
+    }
+    Linking.openURL(response.data).catch(() => Alert.alert('Error', 'Failed to open syllabus'));
+  };
+
   const handleRetryTopics = () => {
     clearTopicError();
     fetchTopicsForCourse(course.id);
   };
 
-  // Convert Topic to display format
-  const getTopicKeywords = (topic: Topic): string[] => {
-    return topic.content ? topic.content.split(', ').filter(k => k.trim()) : [];
-  };
-
   return (
     <SafeAreaView style={styles.container}>
-      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <ScrollView ref={scrollViewRef} style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
           {/* Header */}
           <View style={styles.header}>
@@ -257,10 +399,27 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
               )}
             </View>
             {errors.description && <Text style={styles.errorText}>{errors.description}</Text>}
+
+            {course.syllabusUrl && !isEditing && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Syllabus</Text>
+                <TouchableOpacity onPress={handleViewSyllabus}>
+                  <Text style={styles.syllabusLink} numberOfLines={1}>
+                    📄 {course.syllabusUrl.split('/').pop()}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
 
           {/* Topics Section - UPDATED */}
-          <View style={styles.section}>
+          <View
+            style={styles.section}
+            onLayout={event => {
+              focusLayout.current.section = event.nativeEvent.layout.y;
+              scrollToFocusedTopic();
+            }}
+          >
             <View style={styles.topicsHeader}>
               <Text style={styles.sectionTitle}>Course Topics</Text>
               {!course.topicsExtracted && (
@@ -312,20 +471,46 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
               </View>
             ) : (
               // Display topics
-              <View>
+              <View
+                onLayout={event => {
+                  focusLayout.current.list = event.nativeEvent.layout.y;
+                  scrollToFocusedTopic();
+                }}
+              >
                 <Text style={styles.topicsCount}>
                   {topics.length} topic{topics.length !== 1 ? 's' : ''} available
                 </Text>
                 
-                {topics.map((topic, index) => {
-                  const keywords = getTopicKeywords(topic);
+                {topics.map(topic => {
+                  const keywords = topic.keywords || [];
                   
                   return (
-                    <View key={topic.id} style={styles.topicCard}>
+                    <View
+                      key={topic.id}
+                      style={[
+                        styles.topicCard,
+                        isSubtopic(topic) && styles.subtopicCard,
+                        topic.id === focusTopicId && styles.focusedTopicCard,
+                      ]}
+                      onLayout={topic.id === focusTopicId ? event => {
+                        focusLayout.current.card = event.nativeEvent.layout.y;
+                        scrollToFocusedTopic();
+                      } : undefined}
+                    >
                       <View style={styles.topicHeader}>
-                        <Text style={styles.topicNumber}>{index + 1}.</Text>
+                        <Text style={styles.topicNumber}>{outlineNumbers.get(topic.id)}.</Text>
                         <Text style={styles.topicTitle}>{topic.title}</Text>
                       </View>
+
+                      {!!topic.materialId && materialTitles.has(topic.materialId) && (
+                        <Text style={styles.topicSource}>From: {materialTitles.get(topic.materialId)}</Text>
+                      )}
+
+                      {topicWeeks.has(topic.id) && (
+                        <Text style={styles.topicWeeks}>
+                          {formatWeeks(topicWeeks.get(topic.id)!.startWeek, topicWeeks.get(topic.id)!.endWeek)}
+                        </Text>
+                      )}
                       
                       {keywords.length > 0 && (
                         <View style={styles.keywordsContainer}>
@@ -339,17 +524,111 @@ export const CourseDetailScreen: React.FC<CourseDetailScreenProps> = ({
                           </View>
                         </View>
                       )}
+
+                      {!!topic.content && (
+                        <Text style={styles.topicNotes}>{topic.content}</Text>
+                      )}
+
+                      {topic.learningObjectives && topic.learningObjectives.length > 0 && (
+                        <View style={styles.keywordsContainer}>
+                          <Text style={styles.keywordsLabel}>Learning objectives:</Text>
+                          {topic.learningObjectives.map((objective, objectiveIndex) => (
+                            <Text key={objectiveIndex} style={styles.objectiveText}>• {objective}</Text>
+                          ))}
+                        </View>
+                      )}
                     </View>
                   );
                 })}
                 
-                <TouchableOpacity style={styles.editTopicsButton} onPress={handleAddContent}>
+                <TouchableOpacity style={styles.editTopicsButton} onPress={handleEditTopics}>
                   <Text style={styles.editTopicsText}>✏️ Edit Topics</Text>
                 </TouchableOpacity>
               </View>
             )}
           </View>
 
+          {/* Materials Section */}
+          {course.topicsExtracted && (
+            <View style={styles.section}>
+              <View style={styles.topicsHeader}>
+                <Text style={styles.sectionTitle}>Materials</Text>
+                <TouchableOpacity style={styles.addContentButton} onPress={handleAddContent}>
+                  <Text style={styles.addContentText}>+ Add Material</Text>
+                </TouchableOpacity>
+              </View>
+
+              {courseMaterials.length === 0 ? (
+                <Text style={styles.placeholderSubtext}>
+                  Add lecture notes, slides or readings to extract more topics
+                </Text>
+              ) : (
+                courseMaterials.map(material => {
+                  const topicCount = topics.filter(topic => topic.materialId === material.id).length;
+
+                  return (
+                    <View key={material.id} style={styles.materialRow}>
+                      <View style={styles.materialInfo}>
+                        <Text style={styles.materialTitle} numberOfLines={1}>{material.title}</Text>
+                        <Text style={styles.materialMeta}>
+                          {MATERIAL_KIND_LABELS[material.kind]} • {topicCount} topic{topicCount !== 1 ? 's' : ''}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleRemoveMaterial(material)}>
+                        <Text style={styles.materialRemove}>Remove</Text>
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          )}
+
+          {/* Pacing Section */}
+          {course.topicsExtracted && topics.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Pacing</Text>
+              <View style={[styles.pacingCard, { borderColor: getPacingColor(pacing.status) }]}>
+                <Text style={[styles.pacingStatus, { color: getPacingColor(pacing.status) }]}>
+                  {getPacingLabel(pacing.status)}
+                </Text>
+                <Text style={styles.pacingRecommendation}>{pacing.recommendation}</Text>
+                <Text style={styles.pacingStats}>
+                  {pacing.topicsStarted} of {pacing.topicsTotal} topics started • {pacing.daysRemaining} day{pacing.daysRemaining === 1 ? '' : 's'} left
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {/* Key Dates Section */}
+          {keyDates.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Key Dates</Text>
+              {keyDates.map((assessment, index) => (
+                <View key={`${assessment.title}-${index}`} style={styles.keyDateRow}>
+                  <Text style={styles.keyDateDate}>{assessment.date}</Text>
+                  <Text style={styles.keyDateTitle}>{assessment.title}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Study Schedule Section */}
+          {onEditSchedule && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Study Schedule</Text>
+              <TouchableOpacity style={styles.scheduleButton} onPress={onEditSchedule}>
+                <Text style={styles.scheduleIcon}>📅</Text>
+                <View style={styles.scheduleInfo}>
+                  <Text style={styles.scheduleTitle}>Study days & quiz frequency</Text>
+                  <Text style={styles.scheduleSubtext}>
+                    Choose when quizzes are scheduled until {course.endDate}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Quiz History Section (Placeholder) */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Quiz History</Text>
@@ -477,6 +756,11 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 20,
   },
+  syllabusLink: {
+    fontSize: fontSize.base,
+    color: colors.primary,
+    fontWeight: '600',
+  },
   input: {
     backgroundColor: colors.white,
     borderWidth: 1,
@@ -602,6 +886,75 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.md,
     marginBottom: spacing.md,
   },
+  topicWeeks: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  keyDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  keyDateDate: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.primary,
+    marginRight: spacing.md,
+  },
+  keyDateTitle: {
+    flex: 1,
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+  },
+  materialRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  materialInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  materialTitle: {
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+  },
+  materialMeta: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  materialRemove: {
+    fontSize: fontSize.sm,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  topicSource: {
+    fontSize: fontSize.sm,
+    color: colors.textLight,
+    marginBottom: spacing.xs,
+  },
+  focusedTopicCard: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  subtopicCard: {
+    marginLeft: spacing.lg,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
   topicHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -643,6 +996,63 @@ const styles = StyleSheet.create({
     fontSize: fontSize.base,
     color: colors.textPrimary,
   },
+  topicNotes: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  objectiveText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  pacingCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  pacingStatus: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  pacingRecommendation: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    lineHeight: 20,
+    marginBottom: spacing.xs,
+  },
+  pacingStats: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  scheduleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  scheduleIcon: {
+    fontSize: 24,
+  },
+  scheduleInfo: {
+    flex: 1,
+  },
+  scheduleTitle: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  scheduleSubtext: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
   editTopicsButton: {
     backgroundColor: colors.secondary,
     paddingVertical: spacing.md,
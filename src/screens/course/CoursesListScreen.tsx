@@ -1,8 +1,9 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   SafeAreaView,
@@ -13,6 +14,9 @@ import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
 import { useCourseStore } from '../../stores/courseStore';
 import { useErrorHandler } from '../../hooks/useErrorHandler';
 import { Course } from '../../types';
+import { TopicService } from '../../services/supabase/topic';
+import { CourseMaterialService } from '../../services/supabase/material';
+import { CourseSearchIndex, CourseSearchResult } from '../../services/search/courseSearch';
 import { 
   ErrorBanner, 
   NetworkError, 
@@ -22,14 +26,18 @@ import {
 interface CoursesListScreenProps {
   onCreateCourse: () => void;
   onCoursePress: (course: Course) => void;
+  onSearchResultPress: (course: Course, topicId: string | null) => void;
 }
 
 export const CoursesListScreen: React.FC<CoursesListScreenProps> = ({
   onCreateCourse,
   onCoursePress,
+  onSearchResultPress,
 }) => {
   const { 
     courses, 
+    topics,
+    materials,
     isLoading, 
     error: storeError, 
     fetchCourses, 
@@ -46,10 +54,54 @@ export const CoursesListScreen: React.FC<CoursesListScreenProps> = ({
     isNetworkError,
   } = useErrorHandler();
 
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState<CourseSearchIndex | null>(null);
+  const [isLoadingSearch, setIsLoadingSearch] = useState(false);
+  const searchLoadRef = useRef(0);
+  const isSearching = searchQuery.trim().length > 0;
+
   useEffect(() => {
     fetchCourses();
   }, [fetchCourses]);
 
+  // Rebuild the search index when courses, topics or materials change (a
+  // deleted course, edited topics, a new upload)
+  useEffect(() => {
+    setSearchIndex(null);
+  }, [courses, topics, materials]);
+
+  // Load every course's topics and material text the first time the user searches
+  useEffect(() => {
+    if (!isSearching || searchIndex || courses.length === 0) return;
+
+    const load = ++searchLoadRef.current;
+    setIsLoadingSearch(true);
+    Promise.all([TopicService.getAllTopics(), CourseMaterialService.getAllPassages()])
+      .then(([topicsResponse, passagesResponse]) => {
+        if (load !== searchLoadRef.current) return;
+        setSearchIndex(new CourseSearchIndex({
+          courses,
+          topics: topicsResponse.data || [],
+          passages: passagesResponse.data || [],
+        }));
+      })
+      .catch(error => {
+        console.error('Load search index error:', error);
+        if (load === searchLoadRef.current) {
+          setSearchIndex(new CourseSearchIndex({ courses, topics: [], passages: [] }));
+        }
+      })
+      .finally(() => {
+        if (load === searchLoadRef.current) setIsLoadingSearch(false);
+      });
+    // topics and materials restart a load already in flight, which would be stale
+  }, [isSearching, searchIndex, courses, topics, materials]);
+
+  const searchResults = useMemo(
+    () => (searchIndex && isSearching ? searchIndex.search(searchQuery) : []),
+    [searchIndex, isSearching, searchQuery]
+  );
+
   // Handle store errors when they change
   useEffect(() => {
     if (storeError) {
@@ -166,6 +218,34 @@ export const CoursesListScreen: React.FC<CoursesListScreenProps> = ({
     );
   };
 
+  const renderSearchResult = ({ item: result }: { item: CourseSearchResult }) => {
+    const course = courses.find(c => c.id === result.courseId);
+    if (!course) return null;
+
+    return (
+      <TouchableOpacity 
+        style={styles.resultCard}
+        onPress={() => onSearchResultPress(course, result.topicId)}
+      >
+        <Text style={styles.resultTitle} numberOfLines={1}>{result.title}</Text>
+        <Text style={styles.resultLocation} numberOfLines={1}>{result.location}</Text>
+        {!!result.snippet && (
+          <Text style={styles.resultSnippet} numberOfLines={3}>{result.snippet}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSearchEmpty = () => (
+    <View style={styles.searchEmpty}>
+      <Text style={styles.emptyDescription}>
+        {isLoadingSearch || !searchIndex
+          ? 'Searching your course materials...'
+          : `No matches for "${searchQuery.trim()}"`}
+      </Text>
+    </View>
+  );
+
   const renderEmpty = () => (
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyIcon}>📚</Text>
@@ -215,20 +295,54 @@ export const CoursesListScreen: React.FC<CoursesListScreenProps> = ({
           </View>
         </View>
 
-        {/* Course List */}
-        <FlatList
-          data={courses}
-          renderItem={renderCourse}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={courses.length === 0 ? styles.emptyList : styles.list}
-          showsVerticalScrollIndicator={false}
-          ListEmptyComponent={!isLoading ? renderEmpty : null}
-          refreshing={isLoading}
-          onRefresh={fetchCourses}
-        />
+        {/* Search across every course's topics and materials */}
+        {courses.length > 0 && (
+          <View style={styles.searchBar}>
+            <Text style={styles.searchIcon}>🔍</Text>
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search topics and materials"
+              placeholderTextColor={colors.placeholder}
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {isSearching && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Text style={styles.searchClear}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {isSearching ? (
+          // Search Results
+          <FlatList
+            data={searchResults}
+            renderItem={renderSearchResult}
+            keyExtractor={(item) => item.key}
+            contentContainerStyle={styles.list}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={renderSearchEmpty}
+          />
+        ) : (
+          // Course List
+          <FlatList
+            data={courses}
+            renderItem={renderCourse}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={courses.length === 0 ? styles.emptyList : styles.list}
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={!isLoading ? renderEmpty : null}
+            refreshing={isLoading}
+            onRefresh={fetchCourses}
+          />
+        )}
 
         {/* Floating Add Button */}
-        {courses.length > 0 && (
+        {courses.length > 0 && !isSearching && (
           <TouchableOpacity style={styles.floatingButton} onPress={onCreateCourse}>
             <Text style={styles.floatingButtonText}>+</Text>
           </TouchableOpacity>
@@ -291,6 +405,59 @@ const styles = StyleSheet.create({
   list: {
     paddingBottom: 80,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  searchIcon: {
+    fontSize: fontSize.sm,
+    marginRight: spacing.xs,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+  },
+  searchClear: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+    padding: spacing.xs,
+  },
+  searchEmpty: {
+    paddingVertical: spacing.xl,
+    alignItems: 'center',
+  },
+  resultCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    padding: spacing.md,
+  },
+  resultTitle: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  resultLocation: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    marginTop: 2,
+  },
+  resultSnippet: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginTop: spacing.xs,
+  },
   emptyList: {
     flex: 1,
   },
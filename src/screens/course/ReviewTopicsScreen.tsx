@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -12,10 +12,22 @@ import {
 import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
 import { Course } from '../../types';
 import { ExtractedTopic } from '../../services/openai/topicExtraction';
+import {
+  canIndentTopic,
+  canOutdentTopic,
+  getChildIds,
+  getOutlineNumbers,
+  indentTopic,
+  isSubtopic,
+  outdentTopic,
+  removeTopicWithChildren,
+} from '../../services/topics/topicTree';
+import { LOW_CONFIDENCE_THRESHOLD } from '../../services/text/topicGrounding';
 
 interface ReviewTopicsScreenProps {
   course: Course;
   topics: ExtractedTopic[];
+  sourceName?: string; // file the topics were extracted from, when adding a material
   onBack: () => void;
   onSave: (topics: ExtractedTopic[]) => void;
   onCancel: () => void;
@@ -25,6 +37,7 @@ interface ReviewTopicsScreenProps {
 export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
   course,
   topics: initialTopics,
+  sourceName,
   onBack,
   onSave,
   onCancel,
@@ -34,6 +47,39 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
 
+  const outlineNumbers = useMemo(() => getOutlineNumbers(topics), [topics]);
+
+  // Topics whose grounding in the syllabus is weak; cleared once the user edits
+  // or confirms them
+  const isLowConfidence = (topic: ExtractedTopic): boolean =>
+    topic.confidence !== undefined && topic.confidence < LOW_CONFIDENCE_THRESHOLD;
+  const lowConfidenceCount = topics.filter(isLowConfidence).length;
+
+  // Mark a flagged topic as checked
+  const confirmTopic = (topicId: string) => {
+    setTopics(prevTopics =>
+      prevTopics.map(topic =>
+        topic.id === topicId
+          ? { ...topic, confidence: undefined, confidenceIssues: undefined }
+          : topic
+      )
+    );
+  };
+
+  // Keep order in step with the list position after structural edits
+  const renumber = (list: ExtractedTopic[]): ExtractedTopic[] =>
+    list.map((topic, index) => ({ ...topic, order: index + 1 }));
+
+  // Make a topic a subtopic of the unit above it
+  const handleIndent = (topicId: string) => {
+    setTopics(prevTopics => indentTopic(prevTopics, topicId));
+  };
+
+  // Turn a subtopic back into a unit
+  const handleOutdent = (topicId: string) => {
+    setTopics(prevTopics => outdentTopic(prevTopics, topicId));
+  };
+
   // Add a new topic
   const addNewTopic = () => {
     const newTopic: ExtractedTopic = {
@@ -60,7 +106,7 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
     setTopics(prevTopics =>
       prevTopics.map(topic =>
         topic.id === editingId
-          ? { ...topic, title: editingTitle.trim() }
+          ? { ...topic, title: editingTitle.trim(), confidence: undefined, confidenceIssues: undefined }
           : topic
       )
     );
@@ -75,25 +121,24 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
     setEditingTitle('');
   };
 
-  // Remove topic with confirmation
+  // Remove topic (and its subtopics) with confirmation
   const removeTopic = (topicId: string, topicTitle: string) => {
+    const subtopicCount = getChildIds(topics, topicId).length;
+    const subtopicNote = subtopicCount > 0
+      ? ` Its ${subtopicCount} subtopic${subtopicCount !== 1 ? 's' : ''} will be removed too.`
+      : '';
+
     Alert.alert(
       'Remove Topic',
-      `Are you sure you want to remove "${topicTitle}"?`,
+      `Are you sure you want to remove "${topicTitle}"?${subtopicNote}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Remove',
           style: 'destructive',
           onPress: () => {
-            setTopics(prevTopics => {
-              const filtered = prevTopics.filter(topic => topic.id !== topicId);
-              // Reorder remaining topics
-              return filtered.map((topic, index) => ({
-                ...topic,
-                order: index + 1,
-              }));
-            });
+            // Reorder remaining topics
+            setTopics(prevTopics => renumber(removeTopicWithChildren(prevTopics, topicId)));
           },
         },
       ]
@@ -163,6 +208,9 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
               <View style={styles.courseInfo}>
                 <Text style={styles.courseLabel}>Course:</Text>
                 <Text style={styles.courseName}>{course.name}</Text>
+                {!!sourceName && (
+                  <Text style={styles.courseLabel}>From: {sourceName}</Text>
+                )}
               </View>
             </View>
           </View>
@@ -178,6 +226,15 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
               </TouchableOpacity>
             </View>
 
+            {lowConfidenceCount > 0 && (
+              <View style={styles.reviewBanner}>
+                <Text style={styles.reviewBannerText}>
+                  ⚠️ {lowConfidenceCount} topic{lowConfidenceCount !== 1 ? 's' : ''} may not match your syllabus.
+                  They are highlighted below: edit, remove or confirm them.
+                </Text>
+              </View>
+            )}
+
             {topics.length === 0 ? (
               <View style={styles.emptyState}>
                 <Text style={styles.emptyIcon}>📝</Text>
@@ -187,10 +244,17 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
                 </Text>
               </View>
             ) : (
-              topics.map((topic, index) => (
-                <View key={topic.id} style={styles.topicCard}>
+              topics.map(topic => (
+                <View
+                  key={topic.id}
+                  style={[
+                    styles.topicCard,
+                    isSubtopic(topic) && styles.subtopicCard,
+                    isLowConfidence(topic) && styles.lowConfidenceCard,
+                  ]}
+                >
                   <View style={styles.topicHeader}>
-                    <Text style={styles.topicNumber}>{index + 1}.</Text>
+                    <Text style={styles.topicNumber}>{outlineNumbers.get(topic.id)}.</Text>
                     
                     {editingId === topic.id ? (
                       <View style={styles.editingContainer}>
@@ -229,6 +293,25 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
                       </TouchableOpacity>
                     )}
 
+                    {canOutdentTopic(topics, topic.id) && (
+                      <TouchableOpacity
+                        style={styles.structureButton}
+                        onPress={() => handleOutdent(topic.id)}
+                        accessibilityLabel="Make this a main topic"
+                      >
+                        <Text style={styles.structureButtonText}>←</Text>
+                      </TouchableOpacity>
+                    )}
+                    {canIndentTopic(topics, topic.id) && (
+                      <TouchableOpacity
+                        style={styles.structureButton}
+                        onPress={() => handleIndent(topic.id)}
+                        accessibilityLabel="Make this a subtopic of the topic above"
+                      >
+                        <Text style={styles.structureButtonText}>→</Text>
+                      </TouchableOpacity>
+                    )}
+
                     <TouchableOpacity
                       style={styles.removeButton}
                       onPress={() => removeTopic(topic.id, topic.title)}
@@ -237,6 +320,29 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
                     </TouchableOpacity>
                   </View>
 
+                  {/* Low confidence warning */}
+                  {isLowConfidence(topic) && (
+                    <View style={styles.confidenceContainer}>
+                      <Text style={styles.confidenceTitle}>
+                        Low confidence ({topic.confidence}%)
+                      </Text>
+                      {(topic.confidenceIssues || []).map((issue, issueIndex) => (
+                        <Text key={issueIndex} style={styles.confidenceIssue}>• {issue}</Text>
+                      ))}
+                      <TouchableOpacity
+                        style={styles.confirmButton}
+                        onPress={() => confirmTopic(topic.id)}
+                      >
+                        <Text style={styles.confirmButtonText}>Looks right</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
+                  {/* Source */}
+                  {!!topic.source?.heading && (
+                    <Text style={styles.sourceText}>From: {topic.source.heading}</Text>
+                  )}
+
                   {/* Keywords */}
                   {topic.keywords && topic.keywords.length > 0 && (
                     <View style={styles.keywordsContainer}>
@@ -250,6 +356,16 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
                       </View>
                     </View>
                   )}
+
+                  {/* Learning Objectives */}
+                  {topic.learningObjectives && topic.learningObjectives.length > 0 && (
+                    <View style={styles.objectivesContainer}>
+                      <Text style={styles.keywordsLabel}>Learning objectives:</Text>
+                      {topic.learningObjectives.map((objective, objectiveIndex) => (
+                        <Text key={objectiveIndex} style={styles.objectiveText}>• {objective}</Text>
+                      ))}
+                    </View>
+                  )}
                 </View>
               ))
             )}
@@ -281,6 +397,7 @@ export const ReviewTopicsScreen: React.FC<ReviewTopicsScreenProps> = ({
             <Text style={styles.helpTitle}>💡 Tips</Text>
             <Text style={styles.helpText}>• Tap any topic title to edit it</Text>
             <Text style={styles.helpText}>• Add topics in logical learning order</Text>
+            <Text style={styles.helpText}>• Use → to make a topic a subtopic of the one above, ← to undo</Text>
             <Text style={styles.helpText}>• Topics help generate better quizzes</Text>
             <Text style={styles.helpText}>• You can always edit these later</Text>
           </View>
@@ -408,6 +525,61 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     marginBottom: spacing.md,
   },
+  lowConfidenceCard: {
+    borderColor: colors.accent,
+  },
+  reviewBanner: {
+    backgroundColor: '#fff7ed',
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  reviewBannerText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    lineHeight: 18,
+  },
+  confidenceContainer: {
+    marginTop: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  confidenceTitle: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.accent,
+    marginBottom: spacing.xs,
+  },
+  confidenceIssue: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  confirmButton: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  confirmButtonText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  sourceText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    marginBottom: spacing.xs,
+  },
+  subtopicCard: {
+    marginLeft: spacing.lg,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
   topicHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -477,6 +649,15 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontStyle: 'italic',
   },
+  structureButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  structureButtonText: {
+    color: colors.primary,
+    fontSize: fontSize.base,
+    fontWeight: 'bold',
+  },
   removeButton: {
     paddingHorizontal: spacing.sm,
     paddingVertical: spacing.xs,
@@ -509,6 +690,15 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     color: colors.textSecondary,
   },
+  objectivesContainer: {
+    marginTop: spacing.sm,
+  },
+  objectiveText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+    lineHeight: 18,
+  },
   actions: {
     marginBottom: spacing.xl,
   },
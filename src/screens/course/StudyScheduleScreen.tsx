@@ -0,0 +1,427 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
+import { Course, QuizFrequency } from '../../types';
+import {
+  studyScheduleSchema,
+  StudyScheduleFormData,
+  DEFAULT_STUDY_SCHEDULE,
+} from '../../schemas/studyScheduleSchema';
+import { StudyScheduleService } from '../../services/supabase/studySchedule';
+import { StudyScheduleGenerator } from '../../services/scheduling/studySchedule';
+
+interface StudyScheduleScreenProps {
+  course: Course;
+  onBack: () => void;
+  onSaved: () => void;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_PRESETS: { label: string; days: number[] }[] = [
+  { label: 'Weekdays', days: [1, 2, 3, 4, 5] },
+  { label: 'Weekends', days: [0, 6] },
+  { label: 'Every day', days: [0, 1, 2, 3, 4, 5, 6] },
+];
+
+const FREQUENCY_OPTIONS: { value: QuizFrequency; label: string; description: string }[] = [
+  { value: 'daily', label: 'Daily', description: 'A quiz on every study day' },
+  { value: 'every_other_day', label: 'Every other day', description: 'At least a day off between quizzes' },
+  { value: 'weekly', label: 'Weekly', description: 'One quiz per week' },
+];
+
+const PREVIEW_SLOTS = 5;
+
+export const StudyScheduleScreen: React.FC<StudyScheduleScreenProps> = ({
+  course,
+  onBack,
+  onSaved,
+}) => {
+  const [formData, setFormData] = useState<StudyScheduleFormData>(DEFAULT_STUDY_SCHEDULE);
+  const [errors, setErrors] = useState<Partial<Record<keyof StudyScheduleFormData, string>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load existing preferences for this course
+  useEffect(() => {
+    const loadSchedule = async () => {
+      const response = await StudyScheduleService.getScheduleForCourse(course.id);
+      if (response.success && response.data) {
+        setFormData({
+          studyDays: response.data.studyDays,
+          preferredTime: response.data.preferredTime,
+          quizFrequency: response.data.quizFrequency,
+        });
+      } else if (!response.success) {
+        Alert.alert('Error', response.error?.message || 'Failed to load study schedule');
+      }
+      setIsLoading(false);
+    };
+
+    loadSchedule();
+  }, [course.id]);
+
+  // Preview upcoming quiz slots for the current (valid) preferences
+  const slots = useMemo(() => {
+    const result = studyScheduleSchema.safeParse(formData);
+    if (!result.success) return [];
+    return StudyScheduleGenerator.generateSlots(result.data, course.endDate, new Date());
+  }, [formData, course.endDate]);
+
+  const updateField = <K extends keyof StudyScheduleFormData>(field: K, value: StudyScheduleFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    const studyDays = formData.studyDays.includes(day)
+      ? formData.studyDays.filter(d => d !== day)
+      : [...formData.studyDays, day];
+    updateField('studyDays', studyDays);
+  };
+
+  const validateForm = (): boolean => {
+    try {
+      studyScheduleSchema.parse(formData);
+      setErrors({});
+      return true;
+    } catch (error: any) {
+      const fieldErrors: Partial<Record<keyof StudyScheduleFormData, string>> = {};
+      error.errors?.forEach((err: any) => {
+        const fieldName = err.path[0] as keyof StudyScheduleFormData;
+        fieldErrors[fieldName] = err.message;
+      });
+      setErrors(fieldErrors);
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) {
+      Alert.alert('Validation Error', 'Please fix the errors below');
+      return;
+    }
+
+    setIsSaving(true);
+    const response = await StudyScheduleService.saveSchedule(
+      course.id,
+      studyScheduleSchema.parse(formData)
+    );
+    setIsSaving(false);
+
+    if (response.success) {
+      Alert.alert('Saved', 'Study schedule updated', [
+        { text: 'OK', onPress: onSaved }
+      ]);
+    } else {
+      Alert.alert('Error', response.error?.message || 'Failed to save study schedule');
+    }
+  };
+
+  const formatSlot = (slot: string): string => {
+    const date = new Date(slot);
+    return `${DAY_LABELS[date.getDay()]} ${date.toLocaleDateString()} at ${formData.preferredTime}`;
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.content}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={onBack}>
+              <Text style={styles.backButtonText}>← Back</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.title}>Study Schedule</Text>
+          <Text style={styles.subtitle}>When should quizzes for {course.name} be scheduled?</Text>
+
+          {isLoading ? (
+            <Text style={styles.loadingText}>Loading preferences...</Text>
+          ) : (
+            <>
+              {/* Study Days */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Study Days</Text>
+                <View style={styles.presetRow}>
+                  {DAY_PRESETS.map(preset => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={styles.presetButton}
+                      onPress={() => updateField('studyDays', preset.days)}
+                    >
+                      <Text style={styles.presetText}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.dayRow}>
+                  {DAY_LABELS.map((label, day) => {
+                    const isSelected = formData.studyDays.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={label}
+                        style={[styles.dayChip, isSelected && styles.dayChipSelected]}
+                        onPress={() => toggleDay(day)}
+                      >
+                        <Text style={[styles.dayChipText, isSelected && styles.dayChipTextSelected]}>
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {errors.studyDays && <Text style={styles.errorText}>{errors.studyDays}</Text>}
+              </View>
+
+              {/* Preferred Time */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Preferred Time</Text>
+                <TextInput
+                  style={[styles.input, errors.preferredTime && styles.inputError]}
+                  value={formData.preferredTime}
+                  onChangeText={(value) => updateField('preferredTime', value)}
+                  placeholder="HH:MM"
+                  placeholderTextColor={colors.placeholder}
+                  maxLength={5}
+                />
+                {errors.preferredTime && <Text style={styles.errorText}>{errors.preferredTime}</Text>}
+              </View>
+
+              {/* Quiz Frequency */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Quiz Frequency</Text>
+                {FREQUENCY_OPTIONS.map(option => {
+                  const isSelected = formData.quizFrequency === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.frequencyOption, isSelected && styles.frequencyOptionSelected]}
+                      onPress={() => updateField('quizFrequency', option.value)}
+                    >
+                      <Text style={styles.frequencyLabel}>{isSelected ? '● ' : '○ '}{option.label}</Text>
+                      <Text style={styles.frequencyDescription}>{option.description}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                {errors.quizFrequency && <Text style={styles.errorText}>{errors.quizFrequency}</Text>}
+              </View>
+
+              {/* Preview */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Upcoming Quizzes</Text>
+                <View style={styles.previewBox}>
+                  {slots.length === 0 ? (
+                    <Text style={styles.previewEmpty}>
+                      No quiz slots before the course ends on {course.endDate}
+                    </Text>
+                  ) : (
+                    <>
+                      {slots.slice(0, PREVIEW_SLOTS).map(slot => (
+                        <Text key={slot} style={styles.previewItem}>📅 {formatSlot(slot)}</Text>
+                      ))}
+                      <Text style={styles.previewTotal}>
+                        {slots.length} quiz{slots.length === 1 ? '' : 'zes'} until {course.endDate}
+                      </Text>
+                    </>
+                  )}
+                </View>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {isSaving ? 'Saving...' : 'Save Schedule'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  backButtonText: {
+    fontSize: fontSize.base,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+    marginBottom: spacing.xl,
+  },
+  loadingText: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  presetButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  presetText: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  dayRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  dayChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    backgroundColor: colors.white,
+  },
+  dayChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  dayChipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    fontWeight: '500',
+  },
+  dayChipTextSelected: {
+    color: colors.white,
+  },
+  input: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    fontSize: fontSize.base,
+    color: colors.textPrimary,
+  },
+  inputError: {
+    borderColor: colors.accent,
+  },
+  errorText: {
+    fontSize: fontSize.sm,
+    color: colors.accent,
+    marginTop: spacing.xs,
+  },
+  frequencyOption: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  frequencyOptionSelected: {
+    borderColor: colors.primary,
+  },
+  frequencyLabel: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  frequencyDescription: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  previewBox: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  previewItem: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  previewEmpty: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  previewTotal: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  saveButton: {
+    backgroundColor: colors.secondary,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: colors.white,
+    fontSize: fontSize.base,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,272 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
+import { Quiz, QuizQuestion } from '../../types';
+import { formatCorrectAnswer, formatResponse } from '../../services/quiz/grading';
+
+interface QuizResultsScreenProps {
+  quiz: Quiz;
+  onDone: () => void;
+}
+
+export const QuizResultsScreen: React.FC<QuizResultsScreenProps> = ({
+  quiz,
+  onDone,
+}) => {
+  // No score while none of the answers could be graded
+  const score = quiz.score;
+  const correctCount = quiz.questions.filter(q => q.grade?.correct).length;
+  const ungradedCount = quiz.questions.filter(q => !q.grade).length;
+
+  const getScoreMessage = () => {
+    if (score === undefined) return { icon: '⏳', text: 'Grading pending', color: colors.textSecondary };
+    if (score >= 90) return { icon: '🏆', text: 'Outstanding!', color: colors.secondary };
+    if (score >= 70) return { icon: '🎉', text: 'Great job!', color: colors.secondary };
+    if (score >= 50) return { icon: '👍', text: 'Good effort', color: colors.primary };
+    return { icon: '📚', text: 'Keep practicing', color: colors.accent };
+  };
+
+  // Format seconds as "Xm Ys"
+  const formatTime = (seconds?: number): string => {
+    if (!seconds) return '0s';
+    const minutes = Math.floor(seconds / 60);
+    const remaining = seconds % 60;
+    return minutes > 0 ? `${minutes}m ${remaining}s` : `${remaining}s`;
+  };
+
+  // Icon for the question's grade; partial credit shows its percentage
+  const getGradeLabel = (question: QuizQuestion): string => {
+    if (!question.grade) return '⏳';
+    if (question.grade.correct) return '✅';
+    return question.grade.score > 0 ? `🟡 ${Math.round(question.grade.score * 100)}%` : '❌';
+  };
+
+  const scoreMessage = getScoreMessage();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.content}>
+          {/* Score Summary */}
+          <View style={styles.summary}>
+            <Text style={styles.summaryIcon}>{scoreMessage.icon}</Text>
+            <Text style={[styles.scoreText, { color: scoreMessage.color }]}>
+              {score === undefined ? '--' : `${score}%`}
+            </Text>
+            <Text style={styles.scoreMessage}>{scoreMessage.text}</Text>
+            <Text style={styles.summaryDetail}>
+              {correctCount} of {quiz.questions.length} correct • {formatTime(quiz.timeSpent)}
+            </Text>
+            {ungradedCount > 0 && (
+              <Text style={styles.summaryDetail}>
+                {ungradedCount} short {ungradedCount === 1 ? 'answer' : 'answers'} could not be graded and {ungradedCount === 1 ? 'is' : 'are'} not counted
+              </Text>
+            )}
+          </View>
+
+          {/* Question Review */}
+          <Text style={styles.sectionTitle}>Review Answers</Text>
+          {quiz.questions.map((question, index) => {
+            const isCorrect = !!question.grade?.correct;
+            const selected = formatResponse(question, question.response);
+
+            return (
+              <View
+                key={question.id}
+                style={[
+                  styles.questionCard,
+                  !question.grade ? styles.ungradedCard : isCorrect ? styles.correctCard : styles.incorrectCard,
+                ]}
+              >
+                <View style={styles.questionHeader}>
+                  <Text style={styles.questionNumber}>
+                    {getGradeLabel(question)} {index + 1}.
+                  </Text>
+                  <Text style={styles.questionText}>{question.question}</Text>
+                </View>
+
+                {!isCorrect && (
+                  <Text style={styles.answerText}>
+                    Your answer: <Text style={styles.incorrectAnswer}>{selected ?? 'No answer'}</Text>
+                  </Text>
+                )}
+                <Text style={styles.answerText}>
+                  {question.type === 'short_answer' ? 'Sample answer' : 'Correct answer'}:{' '}
+                  <Text style={styles.correctAnswer}>{formatCorrectAnswer(question)}</Text>
+                </Text>
+
+                {question.grade?.feedback && (
+                  <Text style={styles.explanation}>📝 {question.grade.feedback}</Text>
+                )}
+
+                {question.explanation && (
+                  <Text style={styles.explanation}>💡 {question.explanation}</Text>
+                )}
+
+                {question.source && (
+                  <View style={styles.sourceBox}>
+                    <Text style={styles.sourceTitle}>
+                      📖 {[question.source.materialTitle, question.source.heading].filter(Boolean).join(' > ') || 'Course material'}
+                    </Text>
+                    <Text style={styles.sourceExcerpt}>{question.source.excerpt}</Text>
+                  </View>
+                )}
+
+                <Text style={styles.questionMeta}>
+                  {question.topic} • {formatTime(question.timeSpent)}
+                </Text>
+              </View>
+            );
+          })}
+
+          <TouchableOpacity style={styles.doneButton} onPress={onDone}>
+            <Text style={styles.doneButtonText}>Back to Quizzes</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  summary: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+    marginBottom: spacing.xl,
+  },
+  summaryIcon: {
+    fontSize: 48,
+    marginBottom: spacing.sm,
+  },
+  scoreText: {
+    fontSize: 48,
+    fontWeight: 'bold',
+  },
+  scoreMessage: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  summaryDetail: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  questionCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  correctCard: {
+    borderColor: colors.secondary,
+  },
+  incorrectCard: {
+    borderColor: colors.accent,
+  },
+  ungradedCard: {
+    borderColor: colors.inputBorder,
+  },
+  questionHeader: {
+    flexDirection: 'row',
+    marginBottom: spacing.sm,
+  },
+  questionNumber: {
+    fontSize: fontSize.base,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginRight: spacing.xs,
+  },
+  questionText: {
+    flex: 1,
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    lineHeight: 22,
+  },
+  answerText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  incorrectAnswer: {
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  correctAnswer: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  explanation: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    lineHeight: 20,
+    marginTop: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  sourceBox: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.inputBorder,
+    paddingLeft: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  sourceTitle: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  sourceExcerpt: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    lineHeight: 18,
+  },
+  questionMeta: {
+    fontSize: fontSize.sm,
+    color: colors.textLight,
+    marginTop: spacing.xs,
+  },
+  doneButton: {
+    backgroundColor: colors.secondary,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  doneButtonText: {
+    color: colors.white,
+    fontSize: fontSize.base,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,338 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
+import { useQuizStore } from '../../stores/quizStore';
+import { useCourseStore } from '../../stores/courseStore';
+import { Course, Quiz } from '../../types';
+import { ErrorBanner } from '../../components/common/ErrorComponent';
+
+interface QuizzesListScreenProps {
+  onStartQuiz: (quiz: Quiz) => void;
+}
+
+// e.g. "Tue, Oct 20, 6:00 PM"
+const formatScheduledFor = (scheduledFor: string): string =>
+  new Date(scheduledFor).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export const QuizzesListScreen: React.FC<QuizzesListScreenProps> = ({
+  onStartQuiz,
+}) => {
+  const {
+    dueQuizzes,
+    upcomingQuizzes,
+    isLoading,
+    isGenerating,
+    error,
+    fetchDueQuizzes,
+    fetchUpcomingQuizzes,
+    generateQuizForCourse,
+    deleteQuiz,
+    clearError,
+  } = useQuizStore();
+
+  const { courses, fetchCourses } = useCourseStore();
+
+  useEffect(() => {
+    fetchDueQuizzes();
+    fetchUpcomingQuizzes();
+    fetchCourses();
+  }, [fetchDueQuizzes, fetchUpcomingQuizzes, fetchCourses]);
+
+  // Only courses with topics can have quizzes generated
+  const coursesWithTopics = courses.filter(course => course.topicsExtracted);
+
+  const getCourseName = (courseId: string): string => {
+    return courses.find(course => course.id === courseId)?.name || 'Course';
+  };
+
+  const handleRefresh = () => {
+    fetchDueQuizzes();
+    fetchUpcomingQuizzes();
+    fetchCourses();
+  };
+
+  const handleGenerateQuiz = async (course: Course) => {
+    const quiz = await generateQuizForCourse(course);
+    if (quiz) {
+      const dueLater = new Date(quiz.scheduledFor).getTime() > Date.now()
+        ? ` It's scheduled for ${formatScheduledFor(quiz.scheduledFor)}, or you can take it now.`
+        : '';
+      Alert.alert(
+        'Quiz Ready!',
+        `Generated ${quiz.questions.length} questions for "${course.name}".${dueLater}`,
+        [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Start Now', onPress: () => onStartQuiz(quiz) },
+        ]
+      );
+    }
+  };
+
+  const handleDeleteQuiz = (quiz: Quiz) => {
+    Alert.alert(
+      'Delete Quiz',
+      `Are you sure you want to delete "${quiz.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteQuiz(quiz.id),
+        },
+      ]
+    );
+  };
+
+  const renderQuiz = ({ item: quiz }: { item: Quiz }) => (
+    <TouchableOpacity
+      key={quiz.id}
+      style={styles.quizCard}
+      onPress={() => onStartQuiz(quiz)}
+    >
+      <View style={styles.quizContent}>
+        <View style={styles.quizIcon}>
+          <Text style={styles.quizIconText}>📝</Text>
+        </View>
+
+        <View style={styles.quizInfo}>
+          <Text style={styles.quizTitle} numberOfLines={1}>
+            {quiz.title}
+          </Text>
+          <Text style={styles.quizMeta}>
+            {getCourseName(quiz.courseId)} • {quiz.questions.length} question{quiz.questions.length === 1 ? '' : 's'}
+          </Text>
+          {new Date(quiz.scheduledFor).getTime() > Date.now() && (
+            <Text style={styles.quizMeta}>Scheduled for {formatScheduledFor(quiz.scheduledFor)}</Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.menuButton}
+          onPress={() => handleDeleteQuiz(quiz)}
+        >
+          <Text style={styles.menuIcon}>⋯</Text>
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>🎉</Text>
+      <Text style={styles.emptyTitle}>All caught up</Text>
+      <Text style={styles.emptyDescription}>
+        {coursesWithTopics.length > 0
+          ? 'No quizzes are due right now. Generate one below to keep practicing.'
+          : 'Add topics to a course to start generating quizzes.'}
+      </Text>
+    </View>
+  );
+
+  // Quizzes waiting for a later study slot; they can be taken early
+  const renderUpcomingSection = () => {
+    if (upcomingQuizzes.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.upcomingSection}>
+        <Text style={styles.sectionTitle}>Upcoming</Text>
+        {upcomingQuizzes.map(quiz => renderQuiz({ item: quiz }))}
+      </View>
+    );
+  };
+
+  const renderGenerateSection = () => {
+    if (coursesWithTopics.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.generateSection}>
+        <Text style={styles.sectionTitle}>Generate a Quiz</Text>
+        {coursesWithTopics.map(course => (
+          <TouchableOpacity
+            key={course.id}
+            style={[styles.generateButton, isGenerating && styles.buttonDisabled]}
+            onPress={() => handleGenerateQuiz(course)}
+            disabled={isGenerating}
+          >
+            <Text style={styles.generateButtonText} numberOfLines={1}>
+              {isGenerating ? 'Generating...' : `🧠 ${course.name}`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        {/* Error Banner */}
+        {error && (
+          <ErrorBanner
+            message={error}
+            onDismiss={clearError}
+            onRetry={handleRefresh}
+            type="error"
+          />
+        )}
+
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Daily Quizzes</Text>
+          <Text style={styles.subtitle}>Today's quizzes from all courses</Text>
+        </View>
+
+        {/* Quiz List */}
+        <FlatList
+          data={dueQuizzes}
+          renderItem={renderQuiz}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={!isLoading ? renderEmpty : null}
+          ListFooterComponent={
+            <>
+              {renderUpcomingSection()}
+              {renderGenerateSection()}
+            </>
+          }
+          refreshing={isLoading}
+          onRefresh={handleRefresh}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  header: {
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+  },
+  list: {
+    paddingBottom: spacing.xxl,
+  },
+  quizCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+  },
+  quizContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+  },
+  quizIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  quizIconText: {
+    fontSize: 18,
+  },
+  quizInfo: {
+    flex: 1,
+  },
+  quizTitle: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  quizMeta: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  menuButton: {
+    padding: spacing.xs,
+  },
+  menuIcon: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: spacing.lg,
+  },
+  emptyTitle: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  emptyDescription: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  upcomingSection: {
+    marginTop: spacing.lg,
+  },
+  generateSection: {
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  generateButton: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  generateButtonText: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,273 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../../constants/theme';
+import { QuestionResponse, Quiz, QuizAnswer } from '../../types';
+import { QuestionInput, initialResponse } from '../../components/quiz/QuestionInput';
+import { QuestionGrader } from '../../services/quiz/grading';
+
+interface TakeQuizScreenProps {
+  quiz: Quiz;
+  onSubmit: (answers: QuizAnswer[]) => void;
+  onExit: () => void;
+  isSubmitting?: boolean;
+}
+
+export const TakeQuizScreen: React.FC<TakeQuizScreenProps> = ({
+  quiz,
+  onSubmit,
+  onExit,
+  isSubmitting = false,
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [response, setResponse] = useState<QuestionResponse | null>(
+    () => (quiz.questions[0] ? initialResponse(quiz.questions[0]) : null)
+  );
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [hasChanged, setHasChanged] = useState(false);
+  const questionStartedAt = useRef(Date.now());
+
+  // Restart the per-question timer whenever a new question is shown
+  useEffect(() => {
+    questionStartedAt.current = Date.now();
+  }, [currentIndex]);
+
+  // A failed submit leaves the last question on screen; restart its timer so
+  // the retry doesn't count the time spent submitting
+  useEffect(() => {
+    if (!isSubmitting) questionStartedAt.current = Date.now();
+  }, [isSubmitting]);
+
+  const question = quiz.questions[currentIndex];
+  const isLastQuestion = currentIndex === quiz.questions.length - 1;
+  const progress = ((currentIndex + 1) / quiz.questions.length) * 100;
+  const canContinue = !!question && QuestionGrader.isAnswered(question, response);
+
+  const handleChange = (next: QuestionResponse) => {
+    setResponse(next);
+    setHasChanged(true);
+  };
+
+  // Record the answer for the current question and move on
+  const handleNext = () => {
+    if (!canContinue || !question) return;
+
+    // On a retry, add to the time already recorded for the question
+    const recorded = answers.find(answer => answer.questionId === question.id)?.timeSpent ?? 0;
+    const timeSpent = recorded + Math.round((Date.now() - questionStartedAt.current) / 1000);
+    // Replace rather than append so a failed submit can be retried
+    const updatedAnswers = [
+      ...answers.filter(answer => answer.questionId !== question.id),
+      { questionId: question.id, response, timeSpent },
+    ];
+    setAnswers(updatedAnswers);
+
+    if (isLastQuestion) {
+      onSubmit(updatedAnswers);
+    } else {
+      setResponse(initialResponse(quiz.questions[currentIndex + 1]));
+      setHasChanged(false);
+      setCurrentIndex(currentIndex + 1);
+    }
+  };
+
+  // Leave the quiz, confirming if any answers would be lost
+  const handleExit = () => {
+    if (answers.length === 0 && !hasChanged) {
+      onExit();
+      return;
+    }
+
+    Alert.alert(
+      'Leave Quiz?',
+      'Your answers so far will not be saved.',
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        { text: 'Leave', style: 'destructive', onPress: onExit },
+      ]
+    );
+  };
+
+  if (!question) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>This quiz has no questions.</Text>
+          <TouchableOpacity style={styles.nextButton} onPress={onExit}>
+            <Text style={styles.nextButtonText}>Back to Quizzes</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.content}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.exitButton} onPress={handleExit}>
+              <Text style={styles.exitButtonText}>✕ Exit</Text>
+            </TouchableOpacity>
+            <Text style={styles.counter}>
+              {currentIndex + 1} / {quiz.questions.length}
+            </Text>
+          </View>
+
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${progress}%` }]} />
+          </View>
+
+          {/* Question */}
+          <View style={styles.questionCard}>
+            <View style={styles.questionMeta}>
+              <Text style={styles.topicLabel} numberOfLines={1}>{question.topic}</Text>
+              <Text style={styles.difficultyLabel}>{question.difficulty}</Text>
+            </View>
+            <Text style={styles.questionText}>{question.question}</Text>
+          </View>
+
+          {/* Answer */}
+          <View style={styles.answer}>
+            <QuestionInput
+              key={question.id}
+              question={question}
+              response={response}
+              onChange={handleChange}
+              disabled={isSubmitting}
+            />
+          </View>
+
+          {/* Next / Finish */}
+          <TouchableOpacity
+            style={[
+              styles.nextButton,
+              (!canContinue || isSubmitting) && styles.buttonDisabled,
+            ]}
+            onPress={handleNext}
+            disabled={!canContinue || isSubmitting}
+          >
+            <Text style={styles.nextButtonText}>
+              {isSubmitting ? 'Submitting...' : isLastQuestion ? 'Finish Quiz' : 'Next Question'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  exitButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  exitButtonText: {
+    fontSize: fontSize.base,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  counter: {
+    fontSize: fontSize.base,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.inputBorder,
+    borderRadius: 2,
+    overflow: 'hidden',
+    marginBottom: spacing.xl,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.secondary,
+    borderRadius: 2,
+  },
+  questionCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    padding: spacing.lg,
+    marginBottom: spacing.lg,
+  },
+  questionMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  topicLabel: {
+    flex: 1,
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  difficultyLabel: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    textTransform: 'capitalize',
+  },
+  questionText: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    lineHeight: 26,
+  },
+  answer: {
+    marginBottom: spacing.xl,
+  },
+  nextButton: {
+    backgroundColor: colors.secondary,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+  },
+  nextButtonText: {
+    color: colors.white,
+    fontSize: fontSize.base,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    gap: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSize.base,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,228 @@
+// File: src/services/files/docxParser.ts
+import { unzipSync, strFromU8 } from 'fflate';
+
+// Offline .docx text extractor. A .docx is a zip archive; the body lives in
+// word/document.xml and heading styles are defined in word/styles.xml.
+// Headings come out as Markdown-style "#" lines, list items as "- " lines and
+// table rows as " | "-separated cells so later cleaning can keep the structure.
+
+const DOCUMENT_PATH = 'word/document.xml';
+const STYLES_PATH = 'word/styles.xml';
+const MAX_HEADING_LEVEL = 6;
+
+const XML_ENTITIES: { [entity: string]: string } = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+
+interface ParagraphState {
+  text: string;
+  styleId?: string;
+  outlineLevel?: number;
+  isListItem: boolean;
+}
+
+interface TableCell {
+  paragraphs: string[];
+}
+
+// Numeric references past the last Unicode code point become U+FFFD
+const fromCodePoint = (codePoint: number): string =>
+  codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+const getAttribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXmlEntities(match[1]) : undefined;
+};
+
+// Map style ids to heading levels (1-based) using the style name or outline level,
+// so localized documents ("Überschrift 1") still work
+const parseHeadingStyles = (stylesXml: string | undefined): Map<string, number> => {
+  const headings = new Map<string, number>();
+  if (!stylesXml) return headings;
+
+  const styles = stylesXml.match(/<w:style\b[\s\S]*?<\/w:style>/g) || [];
+  styles.forEach(style => {
+    const styleId = getAttribute(/<w:style\b([^>]*)>/.exec(style)?.[1] || '', 'w:styleId');
+    if (!styleId) return;
+
+    const name = (getAttribute(/<w:name\b([^>]*)\/?>/.exec(style)?.[1] || '', 'w:val') || '').toLowerCase();
+    const outline = getAttribute(/<w:outlineLvl\b([^>]*)\/?>/.exec(style)?.[1] || '', 'w:val');
+    const headingMatch = /^heading\s*(\d)$/.exec(name);
+
+    if (name === 'title') {
+      headings.set(styleId, 1);
+    } else if (headingMatch) {
+      headings.set(styleId, Number(headingMatch[1]));
+    } else if (outline !== undefined && Number(outline) < 9) {
+      headings.set(styleId, Number(outline) + 1);
+    }
+  });
+
+  return headings;
+};
+
+// Fallback for documents without styles.xml: Word's built-in style ids
+const getBuiltInHeadingLevel = (styleId: string): number | undefined => {
+  if (styleId === 'Title') return 1;
+  const match = /^Heading(\d)$/.exec(styleId);
+  return match ? Number(match[1]) : undefined;
+};
+
+export class DocxTextExtractor {
+  // Extract structured plain text from raw .docx bytes
+  static extractText(bytes: Uint8Array): string {
+    // Legacy .doc files are OLE compound documents, not zip archives
+    if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) {
+      throw new Error('Legacy Word (.doc) files are not supported. Please save the file as .docx or PDF and try again.');
+    }
+    if (bytes[0] !== 0x50 || bytes[1] !== 0x4b) {
+      throw new Error('File is not a valid .docx document (invalid zip header)');
+    }
+
+    const entries = unzipSync(bytes, {
+      filter: file => file.name === DOCUMENT_PATH || file.name === STYLES_PATH,
+    });
+
+    if (!entries[DOCUMENT_PATH]) {
+      throw new Error('File is not a valid .docx document (missing word/document.xml)');
+    }
+
+    const documentXml = strFromU8(entries[DOCUMENT_PATH]);
+    const stylesXml = entries[STYLES_PATH] ? strFromU8(entries[STYLES_PATH]) : undefined;
+
+    return this.parseDocumentXml(documentXml, parseHeadingStyles(stylesXml));
+  }
+
+  // Walk the document XML tag by tag, tracking paragraphs and (nested) table cells
+  private static parseDocumentXml(xml: string, headingStyles: Map<string, number>): string {
+    const blocks: string[] = [];
+    const cellStack: TableCell[][] = []; // current row's cells per open table
+    let paragraph: ParagraphState | null = null;
+    let inText = false;
+
+    // Lines go to the innermost open cell, or to the body outside tables
+    const emit = (line: string) => {
+      for (let level = cellStack.length - 1; level >= 0; level--) {
+        const openRow = cellStack[level];
+        if (openRow.length > 0) {
+          openRow[openRow.length - 1].paragraphs.push(line);
+          return;
+        }
+      }
+      blocks.push(line);
+    };
+
+    const tokens = /<(\/?)([A-Za-z][\w:.-]*)([^>]*?)(\/?)>|([^<]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokens.exec(xml)) !== null) {
+      const [, closing, tag, attributes, selfClosing, text] = match;
+
+      if (text !== undefined) {
+        if (inText && paragraph) {
+          paragraph.text += decodeXmlEntities(text);
+        }
+        continue;
+      }
+
+      const isOpen = !closing;
+      const isClose = !!closing || !!selfClosing;
+
+      switch (tag) {
+        case 'w:p':
+          if (isOpen && !selfClosing) {
+            paragraph = { text: '', isListItem: false };
+          }
+          if (isClose && paragraph) {
+            const line = this.formatParagraph(paragraph, headingStyles);
+            if (line) emit(line);
+            paragraph = null;
+          }
+          break;
+        case 'w:pStyle':
+          if (paragraph) paragraph.styleId = getAttribute(attributes, 'w:val');
+          break;
+        case 'w:outlineLvl':
+          if (paragraph) paragraph.outlineLevel = Number(getAttribute(attributes, 'w:val'));
+          break;
+        case 'w:numPr':
+          if (paragraph && isOpen) paragraph.isListItem = true;
+          break;
+        case 'w:t':
+          inText = isOpen && !selfClosing;
+          break;
+        case 'w:tab':
+          // Tab stop definitions in paragraph properties also use w:tab
+          if (paragraph && isOpen && !attributes.includes('w:pos')) paragraph.text += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          if (paragraph && isOpen) paragraph.text += '\n';
+          break;
+        case 'w:tbl':
+          if (isOpen && !selfClosing) {
+            cellStack.push([]);
+          } else if (closing) {
+            cellStack.pop();
+            emit('');
+          }
+          break;
+        case 'w:tr':
+          if (isOpen && !selfClosing) {
+            cellStack[cellStack.length - 1] = [];
+          } else if (closing) {
+            const cells = cellStack[cellStack.length - 1] || [];
+            const row = cells
+              .map(cell => cell.paragraphs.filter(Boolean).join(' / '))
+              .join(' | ')
+              .trim();
+            // Clear the row before emitting so a nested table's row lands in its parent cell
+            cellStack[cellStack.length - 1] = [];
+            if (row.replace(/\|/g, '').trim()) emit(row);
+          }
+          break;
+        case 'w:tc':
+          if (isOpen && !selfClosing && cellStack.length > 0) {
+            cellStack[cellStack.length - 1].push({ paragraphs: [] });
+          }
+          break;
+        default:
+          break;
+      }
+    }
+
+    return blocks
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private static formatParagraph(paragraph: ParagraphState, headingStyles: Map<string, number>): string {
+    const text = paragraph.text.replace(/[ \t]+\n/g, '\n').trim();
+    if (!text) return '';
+
+    const styleLevel = paragraph.styleId
+      ? headingStyles.get(paragraph.styleId) ?? getBuiltInHeadingLevel(paragraph.styleId)
+      : undefined;
+    const outlineLevel = paragraph.outlineLevel !== undefined && paragraph.outlineLevel < 9
+      ? paragraph.outlineLevel + 1
+      : undefined;
+    const headingLevel = styleLevel ?? outlineLevel;
+
+    if (headingLevel) {
+      // Blank line before headings keeps sections visually separate
+      return `\n${'#'.repeat(Math.min(headingLevel, MAX_HEADING_LEVEL))} ${text.replace(/\n/g, ' ')}`;
+    }
+    if (paragraph.isListItem) {
+      return `- ${text}`;
+    }
+    return text;
+  }
+}
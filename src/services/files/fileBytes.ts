@@ -0,0 +1,126 @@
+// File: src/services/files/fileBytes.ts
+import * as FileSystem from 'expo-file-system';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Lookup table from base64 character code to its 6-bit value
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  return lookup;
+})();
+
+// Read a local file (file:// or content:// URI from the document picker) as raw bytes
+export const readFileBytes = async (uri: string): Promise<Uint8Array> => {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return base64ToBytes(base64);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes.subarray(0, byteIndex);
+};
+
+// One character per byte, so binary formats can be searched with string methods
+export const bytesToLatin1 = (bytes: Uint8Array): string => {
+  const chunkSize = 0x8000;
+  let result = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return result;
+};
+
+export const latin1ToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+// Decode a text file's bytes: honours UTF-8/UTF-16 byte order marks and falls
+// back to Latin-1 when the content isn't valid UTF-8 (older Windows exports)
+export const decodeTextBytes = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return decodeUtf16(bytes.subarray(2), true);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return decodeUtf16(bytes.subarray(2), false);
+
+  const start = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+  const utf8 = decodeUtf8(bytes.subarray(start));
+  return utf8 ?? bytesToLatin1(bytes);
+};
+
+// Strict UTF-8 decoding; returns null on malformed sequences
+const decodeUtf8 = (bytes: Uint8Array): string | null => {
+  const codePoints: number[] = [];
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    let codePoint: number;
+    let extra: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+      extra = 0;
+    } else if (byte >= 0xc2 && byte < 0xe0) {
+      codePoint = byte & 0x1f;
+      extra = 1;
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint = byte & 0x0f;
+      extra = 2;
+    } else if (byte >= 0xf0 && byte < 0xf5) {
+      codePoint = byte & 0x07;
+      extra = 3;
+    } else {
+      return null;
+    }
+
+    for (let j = 0; j < extra; j++) {
+      const next = bytes[++i];
+      if (next === undefined || (next & 0xc0) !== 0x80) return null;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    codePoints.push(codePoint);
+    if (codePoints.length >= 0x2000) {
+      result += String.fromCodePoint(...codePoints);
+      codePoints.length = 0;
+    }
+  }
+
+  return result + String.fromCodePoint(...codePoints);
+};
+
+const decodeUtf16 = (bytes: Uint8Array, littleEndian: boolean): string => {
+  const units: number[] = [];
+  let result = '';
+
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+    if (units.length >= 0x2000) {
+      result += String.fromCharCode(...units);
+      units.length = 0;
+    }
+  }
+
+  return result + String.fromCharCode(...units);
+};
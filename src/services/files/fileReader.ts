@@ -1,4 +1,9 @@
 // File: src/services/files/fileReader.ts
+import { readFileBytes, decodeTextBytes } from './fileBytes';
+import { PdfTextExtractor } from './pdfParser';
+import { DocxTextExtractor } from './docxParser';
+import { HtmlTextExtractor, MarkdownTextExtractor } from './markupParser';
+import { SyllabusTextNormalizer } from '../text/syllabusText';
 
 export interface FileReadResult {
     success: boolean;
@@ -38,8 +43,14 @@ export interface FileReadResult {
         let extractedText: string;
   
         // Determine file type and extract text accordingly
-        if (file.type.includes('pdf')) {
+        if (file.type.includes('pdf') || file.name.toLowerCase().endsWith('.pdf')) {
           extractedText = await this.extractFromPDF(file);
+        } else if (this.isHtmlFile(file)) {
+          extractedText = HtmlTextExtractor.extractText(await this.readTextContent(file));
+        } else if (this.isMarkdownFile(file)) {
+          extractedText = MarkdownTextExtractor.extractText(await this.readTextContent(file));
+        } else if (file.type.startsWith('text/plain') || file.name.toLowerCase().endsWith('.txt')) {
+          extractedText = await this.readTextContent(file);
         } else if (file.type.includes('word') || file.type.includes('document') || file.name.endsWith('.docx')) {
           extractedText = await this.extractFromWord(file);
         } else {
@@ -49,29 +60,7 @@ export interface FileReadResult {
           };
         }
   
-        // Clean and validate extracted text
-        const cleanedText = this.cleanExtractedText(extractedText);
-        
-        if (!cleanedText || cleanedText.length < 50) {
-          return {
-            success: false,
-            error: 'Could not extract meaningful text from the file. The file may be image-based or corrupted.',
-          };
-        }
-  
-        const processingTime = Date.now() - startTime;
-  
-        return {
-          success: true,
-          text: cleanedText,
-          metadata: {
-            fileName: file.name,
-            fileSize: file.size,
-            fileType: file.type,
-            processingTime,
-            textLength: cleanedText.length,
-          },
-        };
+        return this.buildResult(file, extractedText, startTime);
   
       } catch (error: any) {
         console.error('File reading error:', error);
@@ -82,6 +71,30 @@ export interface FileReadResult {
       }
     }
   
+    // Clean extracted text and wrap it in a result with metadata
+    private static buildResult(file: FileInfo, extractedText: string, startTime: number): FileReadResult {
+      const cleanedText = this.cleanExtractedText(extractedText);
+      
+      if (!cleanedText || cleanedText.length < 50) {
+        return {
+          success: false,
+          error: 'Could not extract meaningful text from the file. The file may be image-based or corrupted.',
+        };
+      }
+  
+      return {
+        success: true,
+        text: cleanedText,
+        metadata: {
+          fileName: file.name,
+          fileSize: file.size,
+          fileType: file.type,
+          processingTime: Date.now() - startTime,
+          textLength: cleanedText.length,
+        },
+      };
+    }
+  
     // Validate file before processing
     private static validateFile(file: FileInfo): { isValid: boolean; error?: string } {
       // Check file size (50MB limit)
@@ -98,43 +111,57 @@ export interface FileReadResult {
         'application/pdf',
         'application/msword',
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'text/plain',
+        'text/markdown',
+        'text/x-markdown',
+        'text/html',
+        'application/xhtml+xml',
       ];
+      const supportedExtensions = ['.pdf', '.doc', '.docx', '.txt', '.md', '.markdown', '.html', '.htm'];
+      const fileName = file.name.toLowerCase();
   
       const isSupported = supportedTypes.some(type => file.type.includes(type)) || 
-                         file.name.endsWith('.pdf') || 
-                         file.name.endsWith('.doc') || 
-                         file.name.endsWith('.docx');
+                         supportedExtensions.some(extension => fileName.endsWith(extension));
   
       if (!isSupported) {
         return {
           isValid: false,
-          error: 'Unsupported file type. Please select a PDF or Word document.',
+          error: 'Unsupported file type. Please select a PDF, Word, text, Markdown or HTML file.',
+        };
+      }
+  
+      // Legacy binary Word files can't be parsed; ask for a conversion instead
+      if (file.type === 'application/msword' || file.name.toLowerCase().endsWith('.doc')) {
+        return {
+          isValid: false,
+          error: 'Legacy Word (.doc) files are not supported. Please save the file as .docx or PDF and try again.',
         };
       }
   
       return { isValid: true };
     }
   
-    // Extract text from PDF files
+    private static isHtmlFile(file: FileInfo): boolean {
+      const fileName = file.name.toLowerCase();
+      return file.type.includes('html') || fileName.endsWith('.html') || fileName.endsWith('.htm');
+    }
+  
+    private static isMarkdownFile(file: FileInfo): boolean {
+      const fileName = file.name.toLowerCase();
+      return file.type.includes('markdown') || fileName.endsWith('.md') || fileName.endsWith('.markdown');
+    }
+  
+    // Read a text-based file (plain text, Markdown, HTML) with encoding detection
+    private static async readTextContent(file: FileInfo): Promise<string> {
+      const bytes = await readFileBytes(file.uri);
+      return decodeTextBytes(bytes);
+    }
+  
+    // Extract text from PDF files (parsed on-device, works offline)
     private static async extractFromPDF(file: FileInfo): Promise<string> {
       try {
-        console.log('PDF extraction - using mock implementation for now');
-        
-        // Don't try to fetch mobile file URIs - they're not network URLs
-        // Mobile file URIs look like: file:///var/mobile/...
-        // We can't fetch them directly without proper file reading libraries
-        
-        console.log(`Processing PDF file: ${file.name}`);
-        console.log(`File URI: ${file.uri}`);
-        console.log(`File size: ${file.size} bytes`);
-        
-        // For mock implementation, return content based on filename patterns
-        // In real implementation, we'd use a library like:
-        // - expo-document-picker with FileSystem.readAsStringAsync()
-        // - react-native-pdf-lib for actual PDF parsing
-        // - Server-side processing for complex PDFs
-        
-        return this.getMockPDFContent(file.name);
+        const bytes = await readFileBytes(file.uri);
+        return PdfTextExtractor.extractText(bytes);
         
       } catch (error: any) {
         console.error('PDF extraction error:', error);
@@ -142,20 +169,11 @@ export interface FileReadResult {
       }
     }
   
-    // Extract text from Word documents
+    // Extract text from Word (.docx) documents, keeping headings, lists and tables
     private static async extractFromWord(file: FileInfo): Promise<string> {
       try {
-        console.log('Word extraction - using mock implementation for now');
-        
-        // Same issue - can't fetch mobile file URIs directly
-        // Need proper file reading libraries for real implementation
-        
-        console.log(`Processing Word file: ${file.name}`);
-        console.log(`File URI: ${file.uri}`);
-        console.log(`File size: ${file.size} bytes`);
-        
-        // Return mock content for testing
-        return this.getMockWordContent(file.name);
+        const bytes = await readFileBytes(file.uri);
+        return DocxTextExtractor.extractText(bytes);
         
       } catch (error: any) {
         console.error('Word extraction error:', error);
@@ -163,22 +181,15 @@ export interface FileReadResult {
       }
     }
   
-    // Clean and normalize extracted text
+    // Clean and normalize extracted text, keeping headings, lists and week markers
     private static cleanExtractedText(text: string): string {
       if (!text) return '';
       
-      return text
-        .replace(/\r\n/g, '\n')           // Normalize line endings
-        .replace(/\r/g, '\n')             // Handle old Mac line endings
-        .replace(/\n{3,}/g, '\n\n')       // Reduce excessive line breaks
-        .replace(/[ \t]+/g, ' ')          // Normalize whitespace
-        .replace(/^\s+|\s+$/g, '')        // Trim start and end
-        .replace(/[^\x20-\x7E\n]/g, '')   // Remove non-printable characters (keep newlines)
-        .substring(0, 10000);             // Limit length for processing
+      return SyllabusTextNormalizer.clean(text);
     }
   
-    // Mock PDF content for testing
-    private static getMockPDFContent(fileName: string): string {
+    // Mock PDF content for testWithSampleFile
+    private static getMockPDFContent(): string {
       return `
   Course Syllabus: Advanced Computer Science
   Professor: Dr. Emily Chen
@@ -275,129 +286,6 @@ export interface FileReadResult {
       `.trim();
     }
   
-    // Mock Word content for testing
-    private static getMockWordContent(fileName: string): string {
-      return `
-  Business Analytics 301
-  Professor: Dr. Michael Rodriguez
-  School of Business Administration
-  Spring 2024
-  
-  COURSE OVERVIEW
-  
-  This course introduces students to the fundamental concepts and techniques of business analytics. Students will learn to use data-driven approaches to solve business problems and make strategic decisions.
-  
-  LEARNING OUTCOMES
-  
-  By the end of this course, students will be able to:
-  1. Apply statistical methods to business data analysis
-  2. Use analytics software tools for data visualization
-  3. Interpret and communicate analytical findings
-  4. Develop data-driven business recommendations
-  5. Understand ethical considerations in data analytics
-  
-  COURSE CONTENT
-  
-  Module 1: Introduction to Business Analytics (Weeks 1-2)
-  - Overview of analytics in business
-  - Types of analytics: descriptive, predictive, prescriptive
-  - Data sources and collection methods
-  - Analytics project lifecycle
-  
-  Module 2: Statistical Foundations (Weeks 3-4)
-  - Descriptive statistics and data summarization
-  - Probability distributions
-  - Hypothesis testing
-  - Correlation and regression analysis
-  
-  Module 3: Data Visualization (Weeks 5-6)
-  - Principles of effective visualization
-  - Chart types and when to use them
-  - Dashboard design
-  - Storytelling with data
-  
-  Module 4: Predictive Analytics (Weeks 7-9)
-  - Linear and logistic regression
-  - Decision trees and random forests
-  - Clustering techniques
-  - Model validation and selection
-  
-  Module 5: Business Intelligence (Weeks 10-11)
-  - Data warehousing concepts
-  - OLAP and data cubes
-  - Key performance indicators (KPIs)
-  - Balanced scorecard methodology
-  
-  Module 6: Advanced Topics (Weeks 12-13)
-  - Text analytics and sentiment analysis
-  - Social media analytics
-  - Customer analytics and segmentation
-  - Supply chain analytics
-  
-  Module 7: Ethics and Implementation (Weeks 14-15)
-  - Privacy and data protection
-  - Bias in analytics models
-  - Change management for analytics
-  - Building an analytics culture
-  
-  Module 8: Final Projects (Week 16)
-  - Student project presentations
-  - Peer feedback and discussion
-  - Course wrap-up and reflection
-  
-  ASSESSMENT STRUCTURE
-  
-  Individual Assignments: 30%
-  - Weekly analytics exercises
-  - Software proficiency demonstrations
-  - Case study analyses
-  
-  Group Project: 35%
-  - Real-world business analytics project
-  - Data collection and analysis
-  - Final presentation and report
-  
-  Examinations: 30%
-  - Midterm exam (15%)
-  - Final exam (15%)
-  
-  Class Participation: 5%
-  - Discussion contributions
-  - Peer feedback
-  - Workshop activities
-  
-  REQUIRED RESOURCES
-  
-  Textbooks:
-  - "Business Analytics: Data Analysis and Decision Making" by Albright & Winston
-  - "Storytelling with Data" by Cole Nussbaumer Knaflic
-  
-  Software:
-  - Microsoft Excel with Analysis ToolPak
-  - Tableau (student license provided)
-  - R or Python (optional but recommended)
-  
-  COURSE POLICIES
-  
-  Attendance: Regular attendance is expected. More than two unexcused absences may result in grade reduction.
-  
-  Late Work: Assignments submitted late will be penalized 5% per day unless prior arrangements are made.
-  
-  Academic Integrity: All work must be original. Proper citation required for all sources. Collaboration guidelines will be specified for each assignment.
-  
-  Accommodations: Students with documented disabilities should contact the Office of Disability Services to arrange reasonable accommodations.
-  
-  SCHEDULE OF IMPORTANT DATES
-  
-  January 15: Course begins
-  February 19: Midterm exam
-  March 11-15: Spring break (no classes)
-  April 16: Group project presentations begin
-  May 7: Final exam
-  May 10: Course ends
-      `.trim();
-    }
-  
     // Get user-friendly error message
     private static getErrorMessage(error: any): string {
       const message = error.message || 'Unknown error';
@@ -417,7 +305,7 @@ export interface FileReadResult {
       return `File reading failed: ${message}`;
     }
   
-    // Test method with sample file info
+    // Test method with sample file info (uses mock content, no real file is read)
     static async testWithSampleFile(): Promise<FileReadResult> {
       const sampleFile: FileInfo = {
         uri: 'file://sample-syllabus.pdf',
@@ -426,7 +314,6 @@ export interface FileReadResult {
         size: 1024 * 500, // 500KB
       };
   
-      return this.readFileText(sampleFile);
+      return this.buildResult(sampleFile, this.getMockPDFContent(), Date.now());
     }
-  }
-  
+  }
\ No newline at end of file
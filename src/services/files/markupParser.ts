@@ -0,0 +1,184 @@
+// File: src/services/files/markupParser.ts
+
+// Markdown and HTML syllabi are turned into the same lightweight
+// structure the PDF/DOCX extractors produce: "#" heading lines, "- " list
+// items and " | "-separated table rows.
+
+const HTML_ENTITIES: { [entity: string]: string } = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', deg: '°', plusmn: '±', times: '×', divide: '÷',
+  le: '≤', ge: '≥', ne: '≠', asymp: '≈', infin: '∞', sum: '∑', radic: '√',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', pi: 'π', sigma: 'σ', mu: 'μ', lambda: 'λ',
+  eacute: 'é', egrave: 'è', aacute: 'á', agrave: 'à', iacute: 'í', oacute: 'ó', uacute: 'ú',
+  ntilde: 'ñ', ccedil: 'ç', auml: 'ä', ouml: 'ö', uuml: 'ü', szlig: 'ß',
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+  'ul', 'ol', 'dl', 'dt', 'dd', 'table', 'thead', 'tbody', 'tfoot', 'blockquote',
+  'pre', 'figure', 'figcaption', 'address', 'form', 'fieldset', 'hr',
+]);
+
+// Elements whose content is never readable text
+const SKIPPED_ELEMENTS = /<(script|style|head|noscript|template|svg|iframe)\b[\s\S]*?<\/\1\s*>/gi;
+
+// Numeric references past the last Unicode code point become U+FFFD, as
+// browsers do
+const fromCodePoint = (codePoint: number): string =>
+  codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+
+export const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return HTML_ENTITIES[entity] ?? HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Collapse runs of spaces and blank lines left behind by markup removal
+const tidyLines = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export class HtmlTextExtractor {
+  static extractText(html: string): string {
+    let output = '';
+    let cellIndex = 0;
+
+    const body = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+      .replace(SKIPPED_ELEMENTS, '');
+
+    const tokens = /<(\/?)([A-Za-z][\w-]*)([^>]*)>|([^<]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokens.exec(body)) !== null) {
+      const [, closing, rawTag, , text] = match;
+
+      if (text !== undefined) {
+        // Source line breaks are not significant in HTML
+        output += decodeHtmlEntities(text.replace(/\s+/g, ' '));
+        continue;
+      }
+
+      const tag = rawTag.toLowerCase();
+      const headingMatch = /^h([1-6])$/.exec(tag);
+
+      if (headingMatch) {
+        output += closing ? '\n\n' : `\n\n${'#'.repeat(Number(headingMatch[1]))} `;
+      } else if (tag === 'li') {
+        if (!closing) {
+          output += '\n- ';
+        }
+      } else if (tag === 'tr') {
+        if (!closing) {
+          cellIndex = 0;
+          output += '\n';
+        }
+      } else if (tag === 'td' || tag === 'th') {
+        if (!closing) {
+          output += cellIndex > 0 ? ' | ' : '';
+          cellIndex++;
+        }
+      } else if (tag === 'br') {
+        output += '\n';
+      } else if (BLOCK_TAGS.has(tag)) {
+        output += '\n';
+      }
+    }
+
+    return tidyLines(output);
+  }
+}
+
+export class MarkdownTextExtractor {
+  static extractText(markdown: string): string {
+    const lines = markdown
+      .replace(/\r\n?/g, '\n')
+      .replace(/^---\n[\s\S]*?\n---\n/, '') // YAML front matter
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split('\n');
+
+    const output: string[] = [];
+    let inCodeBlock = false;
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.replace(/\s+$/, '');
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        return;
+      }
+      if (inCodeBlock) {
+        output.push(line);
+        return;
+      }
+
+      // Setext headings: a line underlined with === or ---
+      const next = lines[index + 1]?.trim() || '';
+      if (line.trim() && /^=+$/.test(next)) {
+        output.push(`# ${this.stripInline(line.trim())}`);
+        return;
+      }
+      if (line.trim() && /^-+$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+        output.push(`## ${this.stripInline(line.trim())}`);
+        return;
+      }
+      if (/^\s*(=+|-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+        output.push(''); // Setext underline or horizontal rule
+        return;
+      }
+
+      const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+      if (heading) {
+        output.push('', `${heading[1]} ${this.stripInline(heading[2])}`);
+        return;
+      }
+
+      const bullet = /^\s*[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/.exec(line);
+      if (bullet) {
+        output.push(`- ${this.stripInline(bullet[1])}`);
+        return;
+      }
+
+      // Table separator rows carry no text
+      if (/^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line)) {
+        return;
+      }
+      if (/^\s*\|.*\|\s*$/.test(line)) {
+        const cells = line.trim().slice(1, -1).split('|').map(cell => this.stripInline(cell.trim()));
+        output.push(cells.join(' | '));
+        return;
+      }
+
+      output.push(this.stripInline(line.replace(/^\s*>\s?/, '')));
+    });
+
+    return tidyLines(output.join('\n'));
+  }
+
+  // Remove inline Markdown syntax, keeping the readable text
+  private static stripInline(text: string): string {
+    return decodeHtmlEntities(
+      text
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')     // Images -> alt text
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')      // Links -> link text
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')     // Reference links
+        .replace(/<[^>]+>/g, '')                      // Inline HTML
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')           // Bold
+        .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?!\w)/g, '$1$2') // Italic
+        .replace(/~~(.+?)~~/g, '$1')                  // Strikethrough
+        .replace(/`([^`]+)`/g, '$1')                  // Inline code
+    );
+  }
+}
@@ -0,0 +1,791 @@
+// File: src/services/files/pdfParser.ts
+import { unzlibSync, inflateSync } from 'fflate';
+import { bytesToLatin1, latin1ToBytes } from './fileBytes';
+
+// Minimal offline PDF text extractor: parses objects (including compressed
+// object streams), walks the page tree, decodes content streams and lays the
+// text runs out top-to-bottom, left-to-right. Images, forms and encrypted
+// documents are out of scope.
+
+class PdfName {
+  constructor(public readonly value: string) {}
+}
+
+class PdfString {
+  constructor(public readonly bytes: string) {} // one char per byte
+}
+
+class PdfRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+class PdfOperator {
+  constructor(public readonly value: string) {}
+}
+
+type PdfDict = { [key: string]: PdfValue };
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: string; // raw (still encoded) stream bytes
+}
+
+interface TextRun {
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+}
+
+interface FontInfo {
+  toUnicode?: Map<string, string>;
+  codeLength: number; // bytes per character code
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+// Windows-1252 characters that differ from Latin-1 (common in simple fonts)
+const WIN_ANSI_OVERRIDES: { [code: number]: string } = {
+  0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”',
+  0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™',
+};
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && !(value instanceof PdfName) && !(value instanceof PdfString) && !(value instanceof PdfRef);
+
+const nameOf = (value: PdfValue | undefined): string | undefined =>
+  value instanceof PdfName ? value.value : undefined;
+
+// Hex digits to a byte string (whitespace ignored, odd length padded with 0)
+const hexToBytes = (hex: string): string => {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  const padded = digits.length % 2 === 1 ? `${digits}0` : digits;
+  let result = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    result += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return result;
+};
+
+// Tokenizer/parser for PDF object syntax, shared by object bodies and content streams
+class PdfLexer {
+  pos: number;
+
+  constructor(private readonly data: string, start = 0) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.data.length;
+  }
+
+  skipWhitespace() {
+    while (this.pos < this.data.length) {
+      const code = this.data.charCodeAt(this.pos);
+      if (WHITESPACE.has(code)) {
+        this.pos++;
+      } else if (this.data[this.pos] === '%') {
+        while (this.pos < this.data.length && this.data[this.pos] !== '\n' && this.data[this.pos] !== '\r') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Parse the next value; bare keywords come back as PdfOperator
+  parseValue(): PdfValue | PdfOperator {
+    this.skipWhitespace();
+    const ch = this.data[this.pos];
+
+    if (ch === '/') return this.parseName();
+    if (ch === '(') return this.parseLiteralString();
+    if (ch === '[') return this.parseArray();
+    if (ch === '<') {
+      return this.data[this.pos + 1] === '<' ? this.parseDict() : this.parseHexString();
+    }
+    if (ch === ']' || ch === '>' || ch === ')' || ch === '{' || ch === '}') {
+      this.pos++;
+      return new PdfOperator(ch);
+    }
+
+    const token = this.readRegularToken();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      return this.parseNumberOrRef(Number(token));
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new PdfOperator(token);
+  }
+
+  private readRegularToken(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length) {
+      const ch = this.data[this.pos];
+      if (WHITESPACE.has(this.data.charCodeAt(this.pos)) || DELIMITERS.has(ch)) break;
+      this.pos++;
+    }
+    if (this.pos === start) {
+      this.pos++; // Never stall on an unexpected byte
+    }
+    return this.data.slice(start, this.pos);
+  }
+
+  // "12 0 R" is a reference; anything else is just a number
+  private parseNumberOrRef(num: number): PdfValue {
+    const saved = this.pos;
+    const match = /^\s+(\d+)\s+R(?![A-Za-z])/.exec(this.data.slice(this.pos, this.pos + 24));
+    if (match && Number.isInteger(num)) {
+      this.pos = saved + match[0].length;
+      return new PdfRef(num, Number(match[1]));
+    }
+    return num;
+  }
+
+  private parseName(): PdfName {
+    this.pos++; // skip '/'
+    const raw = this.readRegularTokenAllowEmpty();
+    return new PdfName(raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readRegularTokenAllowEmpty(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length) {
+      const ch = this.data[this.pos];
+      if (WHITESPACE.has(this.data.charCodeAt(this.pos)) || DELIMITERS.has(ch)) break;
+      this.pos++;
+    }
+    return this.data.slice(start, this.pos);
+  }
+
+  private parseLiteralString(): PdfString {
+    this.pos++; // skip '('
+    let depth = 1;
+    let result = '';
+
+    while (this.pos < this.data.length) {
+      const ch = this.data[this.pos++];
+      if (ch === '\\') {
+        const next = this.data[this.pos++];
+        switch (next) {
+          case 'n': result += '\n'; break;
+          case 'r': result += '\r'; break;
+          case 't': result += '\t'; break;
+          case 'b': result += '\b'; break;
+          case 'f': result += '\f'; break;
+          case '\r':
+            if (this.data[this.pos] === '\n') this.pos++;
+            break; // Line continuation
+          case '\n':
+            break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && this.data[this.pos] >= '0' && this.data[this.pos] <= '7') {
+                octal += this.data[this.pos++];
+              }
+              result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else {
+              result += next; // \( \) \\ and unknown escapes
+            }
+        }
+      } else if (ch === '(') {
+        depth++;
+        result += ch;
+      } else if (ch === ')') {
+        depth--;
+        if (depth === 0) break;
+        result += ch;
+      } else {
+        result += ch;
+      }
+    }
+
+    return new PdfString(result);
+  }
+
+  private parseHexString(): PdfString {
+    this.pos++; // skip '<'
+    const end = this.data.indexOf('>', this.pos);
+    const hex = this.data.slice(this.pos, end === -1 ? undefined : end);
+    this.pos = end === -1 ? this.data.length : end + 1;
+    return new PdfString(hexToBytes(hex));
+  }
+
+  private parseArray(): PdfValue[] {
+    this.pos++; // skip '['
+    const items: PdfValue[] = [];
+    while (!this.done) {
+      const value = this.parseValue();
+      if (value instanceof PdfOperator) {
+        if (value.value === ']') break;
+        continue; // Stray keyword inside an array
+      }
+      items.push(value);
+    }
+    return items;
+  }
+
+  private parseDict(): PdfDict {
+    this.pos += 2; // skip '<<'
+    const dict: PdfDict = {};
+    while (!this.done) {
+      if (this.data.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.parseValue();
+      if (!(key instanceof PdfName)) {
+        continue;
+      }
+      const value = this.parseValue();
+      if (!(value instanceof PdfOperator)) {
+        dict[key.value] = value;
+      }
+    }
+    return dict;
+  }
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private fontCache = new Map<PdfDict, FontInfo>();
+
+  constructor(private readonly raw: string) {
+    this.parseObjects();
+    this.expandObjectStreams();
+  }
+
+  // Scan the file for "N G obj" definitions; later definitions win, matching
+  // incremental updates
+  private parseObjects() {
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(this.raw)) !== null) {
+      const num = Number(match[1]);
+      const lexer = new PdfLexer(this.raw, match.index + match[0].length);
+      const value = lexer.parseValue();
+      if (value instanceof PdfOperator) {
+        continue;
+      }
+
+      const object: PdfObject = { value };
+      lexer.skipWhitespace();
+
+      if (this.raw.startsWith('stream', lexer.pos)) {
+        let start = lexer.pos + 'stream'.length;
+        if (this.raw[start] === '\r') start++;
+        if (this.raw[start] === '\n') start++;
+
+        const length = isDict(value) && typeof value.Length === 'number' ? value.Length : -1;
+        let end = length >= 0 && this.raw.startsWith('endstream', this.skipEol(start + length))
+          ? start + length
+          : this.raw.indexOf('endstream', start);
+        if (end === -1) end = this.raw.length;
+
+        object.stream = this.raw.slice(start, end);
+        header.lastIndex = end;
+      } else {
+        header.lastIndex = lexer.pos;
+      }
+
+      this.objects.set(num, object);
+    }
+  }
+
+  private skipEol(pos: number): number {
+    while (this.raw[pos] === '\r' || this.raw[pos] === '\n' || this.raw[pos] === ' ') pos++;
+    return pos;
+  }
+
+  // PDF 1.5+ stores most small objects inside compressed /ObjStm streams
+  private expandObjectStreams() {
+    this.objects.forEach(object => {
+      if (!isDict(object.value) || nameOf(object.value.Type) !== 'ObjStm' || object.stream === undefined) {
+        return;
+      }
+
+      const data = this.decodeStream(object);
+      if (data === null) return;
+
+      const count = Number(object.value.N) || 0;
+      const first = Number(object.value.First) || 0;
+      const lexer = new PdfLexer(data);
+      const entries: { num: number; offset: number }[] = [];
+
+      for (let i = 0; i < count; i++) {
+        const num = lexer.parseValue();
+        const offset = lexer.parseValue();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+        entries.push({ num, offset });
+      }
+
+      entries.forEach(({ num, offset }) => {
+        if (this.objects.has(num)) return;
+        const value = new PdfLexer(data, first + offset).parseValue();
+        if (!(value instanceof PdfOperator)) {
+          this.objects.set(num, { value });
+        }
+      });
+    });
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    for (let depth = 0; current instanceof PdfRef && depth < 10; depth++) {
+      current = this.objects.get(current.num)?.value;
+    }
+    return current;
+  }
+
+  private getObject(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+  }
+
+  // Decode a stream's filters; returns null for filters we can't handle (images)
+  decodeStream(object: PdfObject): string | null {
+    if (object.stream === undefined || !isDict(object.value)) {
+      return null;
+    }
+
+    const filterValue = this.resolve(object.value.Filter);
+    const filters = Array.isArray(filterValue) ? filterValue.map(f => nameOf(this.resolve(f))) : [nameOf(filterValue)];
+    let data = object.stream;
+
+    for (const filter of filters) {
+      if (!filter) continue;
+
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = this.inflate(data);
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = hexToBytes(data.replace(/>[\s\S]*$/, ''));
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = this.decodeAscii85(data);
+          break;
+        default:
+          return null;
+      }
+    }
+
+    return data;
+  }
+
+  private inflate(data: string): string {
+    const bytes = latin1ToBytes(data);
+    try {
+      return bytesToLatin1(unzlibSync(bytes));
+    } catch (error) {
+      // Some writers omit or corrupt the zlib header; try raw deflate
+      return bytesToLatin1(inflateSync(bytes.subarray(2)));
+    }
+  }
+
+  private decodeAscii85(data: string): string {
+    const input = data.replace(/\s/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+    let result = '';
+    let group: number[] = [];
+
+    const flush = (length: number) => {
+      while (group.length < 5) group.push(84); // pad with 'u'
+      let value = 0;
+      for (const digit of group) value = value * 85 + digit;
+      const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+      result += String.fromCharCode(...bytes.slice(0, length));
+      group = [];
+    };
+
+    for (const ch of input) {
+      if (ch === 'z' && group.length === 0) {
+        result += '\0\0\0\0';
+        continue;
+      }
+      group.push(ch.charCodeAt(0) - 33);
+      if (group.length === 5) flush(4);
+    }
+    if (group.length > 0) flush(group.length - 1);
+
+    return result;
+  }
+
+  // Page dictionaries in reading order, with inherited Resources applied
+  getPages(): PdfDict[] {
+    const pages: PdfDict[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfValue | undefined, inheritedResources?: PdfValue) => {
+      const dict = this.resolve(node);
+      if (!isDict(dict) || visited.has(dict)) return;
+      visited.add(dict);
+
+      const resources = dict.Resources ?? inheritedResources;
+      const kids = this.resolve(dict.Kids);
+
+      if (nameOf(dict.Type) === 'Page' || (!Array.isArray(kids) && dict.Contents !== undefined)) {
+        pages.push({ ...dict, Resources: resources ?? null });
+      } else if (Array.isArray(kids)) {
+        kids.forEach(kid => walk(kid, resources));
+      }
+    };
+
+    const catalog = Array.from(this.objects.values())
+      .map(object => object.value)
+      .find(value => isDict(value) && nameOf(value.Type) === 'Catalog') as PdfDict | undefined;
+
+    if (catalog) {
+      walk(catalog.Pages);
+    }
+
+    // Damaged page tree: fall back to every page object in file order
+    if (pages.length === 0) {
+      Array.from(this.objects.entries())
+        .sort(([a], [b]) => a - b)
+        .forEach(([, object]) => {
+          if (isDict(object.value) && nameOf(object.value.Type) === 'Page') {
+            pages.push(object.value);
+          }
+        });
+    }
+
+    return pages;
+  }
+
+  // Concatenated, decoded content streams of a page
+  getPageContent(page: PdfDict): string {
+    const contents = page.Contents;
+    const refs = Array.isArray(this.resolve(contents)) ? (this.resolve(contents) as PdfValue[]) : [contents];
+
+    return refs
+      .map(ref => {
+        const object = this.getObject(ref);
+        return object ? this.decodeStream(object) ?? '' : '';
+      })
+      .join('\n');
+  }
+
+  getFonts(page: PdfDict): Map<string, FontInfo> {
+    const fonts = new Map<string, FontInfo>();
+    const resources = this.resolve(page.Resources);
+    const fontDict = isDict(resources) ? this.resolve(resources.Font) : undefined;
+    if (!isDict(fontDict)) return fonts;
+
+    Object.keys(fontDict).forEach(name => {
+      const font = this.resolve(fontDict[name]);
+      if (isDict(font)) {
+        fonts.set(name, this.getFontInfo(font));
+      }
+    });
+    return fonts;
+  }
+
+  private getFontInfo(font: PdfDict): FontInfo {
+    const cached = this.fontCache.get(font);
+    if (cached) return cached;
+
+    const isCompositeFont = nameOf(font.Subtype) === 'Type0';
+    const info: FontInfo = { codeLength: isCompositeFont ? 2 : 1 };
+    const cmapObject = this.getObject(font.ToUnicode);
+    const cmapData = cmapObject ? this.decodeStream(cmapObject) : null;
+
+    if (cmapData) {
+      const { map, codeLength } = parseToUnicodeCMap(cmapData);
+      info.toUnicode = map;
+      if (codeLength) info.codeLength = codeLength;
+    }
+
+    this.fontCache.set(font, info);
+    return info;
+  }
+}
+
+// Parse bfchar/bfrange mappings from a ToUnicode CMap. Keys are source codes
+// as byte strings, values the Unicode text they map to.
+const parseToUnicodeCMap = (data: string): { map: Map<string, string>; codeLength?: number } => {
+  const map = new Map<string, string>();
+  const utf16ToString = (bytes: string) => {
+    let result = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return result;
+  };
+
+  const codespace = /begincodespacerange\s*<([0-9A-Fa-f]+)>/.exec(data);
+  const codeLength = codespace ? Math.ceil(codespace[1].length / 2) : undefined;
+
+  const charBlocks = data.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+  charBlocks.forEach(block => {
+    const pairs = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pairs.exec(block)) !== null) {
+      map.set(hexToBytes(match[1]), utf16ToString(hexToBytes(match[2])));
+    }
+  });
+
+  const rangeBlocks = data.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+  rangeBlocks.forEach(block => {
+    const ranges = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g;
+    let match: RegExpExecArray | null;
+    while ((match = ranges.exec(block)) !== null) {
+      const startHex = match[1];
+      const start = parseInt(startHex, 16);
+      const end = parseInt(match[2], 16);
+      const width = startHex.length;
+
+      if (match[3].startsWith('[')) {
+        const targets = match[3].match(/<([0-9A-Fa-f]*)>/g) || [];
+        targets.forEach((target, offset) => {
+          const code = (start + offset).toString(16).padStart(width, '0');
+          map.set(hexToBytes(code), utf16ToString(hexToBytes(target.slice(1, -1))));
+        });
+      } else {
+        const base = hexToBytes(match[3].slice(1, -1));
+        // Increment the last UTF-16 unit across the range
+        const prefix = base.slice(0, -2);
+        const last = ((base.charCodeAt(base.length - 2) << 8) | base.charCodeAt(base.length - 1)) || 0;
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          const unit = last + (code - start);
+          map.set(
+            hexToBytes(code.toString(16).padStart(width, '0')),
+            utf16ToString(prefix + String.fromCharCode((unit >> 8) & 0xff, unit & 0xff))
+          );
+        }
+      }
+    }
+  });
+
+  return { map, codeLength };
+};
+
+const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+];
+
+const decodeText = (bytes: string, font: FontInfo | undefined): string => {
+  if (font?.toUnicode && font.toUnicode.size > 0) {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += font.codeLength) {
+      const code = bytes.slice(i, i + font.codeLength);
+      result += font.toUnicode.get(code) ?? '';
+    }
+    return result;
+  }
+
+  // Two-byte codes without a ToUnicode map can't be decoded reliably
+  if (font && font.codeLength === 2) {
+    return '';
+  }
+
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes.charCodeAt(i);
+    result += WIN_ANSI_OVERRIDES[code] ?? (code >= 0x20 || code === 0x09 ? String.fromCharCode(code) : '');
+  }
+  return result;
+};
+
+// Run the text operators of a content stream and collect positioned runs
+const collectTextRuns = (content: string, fonts: Map<string, FontInfo>): TextRun[] => {
+  const runs: TextRun[] = [];
+  const lexer = new PdfLexer(content);
+  const operands: PdfValue[] = [];
+  const ctmStack: Matrix[] = [];
+
+  let ctm: Matrix = IDENTITY;
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let font: FontInfo | undefined;
+  let fontSize = 12;
+  let leading = 0;
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (value: PdfValue) => {
+    const pieces = Array.isArray(value) ? value : [value];
+    let text = '';
+    pieces.forEach(piece => {
+      if (piece instanceof PdfString) {
+        text += decodeText(piece.bytes, font);
+      } else if (typeof piece === 'number' && piece < -200) {
+        text += ' '; // Large negative kerning is how many writers encode spaces
+      }
+    });
+    if (!text) return;
+
+    const rendering = multiply(textMatrix, ctm);
+    const scale = Math.hypot(rendering[2], rendering[3]) || 1;
+    const size = Math.abs(fontSize * scale) || 1;
+    runs.push({ x: rendering[4], y: rendering[5], size, text });
+
+    // Without glyph widths, estimate the advance so following runs in the
+    // same text object land to the right
+    const advance = text.length * fontSize * 0.5;
+    textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+  };
+
+  while (!lexer.done) {
+    const token = lexer.parseValue();
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+
+    const nums = operands.map(o => (typeof o === 'number' ? o : 0));
+    switch (token.value) {
+      case 'q':
+        ctmStack.push(ctm);
+        break;
+      case 'Q':
+        ctm = ctmStack.pop() ?? IDENTITY;
+        break;
+      case 'cm':
+        if (nums.length === 6) ctm = multiply(nums as Matrix, ctm);
+        break;
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tf': {
+        const name = nameOf(operands[0]);
+        font = name ? fonts.get(name) : undefined;
+        fontSize = nums[1] || fontSize;
+        break;
+      }
+      case 'TL':
+        leading = nums[0];
+        break;
+      case 'Td':
+        moveLine(nums[0], nums[1]);
+        break;
+      case 'TD':
+        leading = -nums[1];
+        moveLine(nums[0], nums[1]);
+        break;
+      case 'Tm':
+        if (nums.length === 6) {
+          lineMatrix = nums as Matrix;
+          textMatrix = lineMatrix;
+        }
+        break;
+      case 'T*':
+        moveLine(0, -leading);
+        break;
+      case 'Tj':
+      case 'TJ':
+        showText(operands[0]);
+        break;
+      case "'":
+        moveLine(0, -leading);
+        showText(operands[0]);
+        break;
+      case '"':
+        moveLine(0, -leading);
+        showText(operands[2]);
+        break;
+      case 'BI': {
+        // Skip inline image data, which is binary
+        const end = content.indexOf('EI', lexer.pos);
+        lexer.pos = end === -1 ? content.length : end + 2;
+        break;
+      }
+      default:
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return runs;
+};
+
+// Order runs into lines (top to bottom, then left to right) and join them
+const layoutRuns = (runs: TextRun[]): string => {
+  if (runs.length === 0) return '';
+
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; size: number; runs: TextRun[] }[] = [];
+
+  sorted.forEach(run => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - run.y) <= Math.max(2, Math.min(line.size, run.size) * 0.5)) {
+      line.runs.push(run);
+    } else {
+      lines.push({ y: run.y, size: run.size, runs: [run] });
+    }
+  });
+
+  let output = '';
+  lines.forEach((line, index) => {
+    const text = line.runs
+      .sort((a, b) => a.x - b.x)
+      .reduce((acc, run, runIndex, all) => {
+        if (runIndex === 0) return run.text;
+        const previous = all[runIndex - 1];
+        const estimatedEnd = previous.x + previous.text.length * previous.size * 0.45;
+        const needsSpace = run.x > estimatedEnd + previous.size * 0.15
+          && !acc.endsWith(' ') && !run.text.startsWith(' ');
+        return acc + (needsSpace ? ' ' : '') + run.text;
+      }, '')
+      .trimEnd();
+
+    if (index > 0) {
+      // A gap noticeably larger than the line height starts a new paragraph
+      const gap = lines[index - 1].y - line.y;
+      output += gap > Math.max(line.size, lines[index - 1].size) * 1.8 ? '\n\n' : '\n';
+    }
+    output += text;
+  });
+
+  return output;
+};
+
+export class PdfTextExtractor {
+  // Extract plain text from raw PDF bytes, one block per page
+  static extractText(bytes: Uint8Array): string {
+    const raw = bytesToLatin1(bytes);
+
+    if (!raw.startsWith('%PDF')) {
+      throw new Error('File is not a valid PDF (invalid header)');
+    }
+    if (/\/Encrypt\s/.test(raw)) {
+      throw new Error('Password-protected PDFs are not supported. Please remove the password and try again.');
+    }
+
+    const document = new PdfDocument(raw);
+    const pages = document.getPages();
+
+    const pageTexts = pages.map(page => {
+      try {
+        const runs = collectTextRuns(document.getPageContent(page), document.getFonts(page));
+        return layoutRuns(runs);
+      } catch (error) {
+        console.warn('Skipping unreadable PDF page:', error);
+        return '';
+      }
+    });
+
+    return pageTexts.filter(text => text.trim()).join('\n\n');
+  }
+}
@@ -0,0 +1,67 @@
+import { fetchWithRetry } from '../request';
+
+const policy = { baseDelayMs: 0, maxDelayMs: 0 };
+
+const respondWith = (...statuses: number[]) => {
+  const fetchMock = jest.fn();
+  statuses.forEach(status => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status }));
+  });
+  global.fetch = fetchMock;
+  return fetchMock;
+};
+
+describe('fetchWithRetry', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('retries a server error until the request succeeds', async () => {
+    const fetchMock = respondWith(503, 502, 200);
+
+    const response = await fetchWithRetry('https://ai.example.com', { method: 'POST' }, { policy });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a POST that timed out at the gateway', async () => {
+    const fetchMock = respondWith(504, 200);
+
+    const response = await fetchWithRetry('https://ai.example.com', { method: 'POST' }, { policy });
+
+    expect(response.status).toBe(504);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a gateway timeout when the request is idempotent', async () => {
+    const fetchMock = respondWith(504, 200);
+
+    const response = await fetchWithRetry(
+      'https://ai.example.com',
+      { method: 'POST' },
+      { policy, idempotent: true }
+    );
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the last error once the retries are used up', async () => {
+    const fetchMock = respondWith(500, 500);
+
+    const response = await fetchWithRetry('https://ai.example.com', { method: 'GET' }, {
+      policy: { ...policy, maxRetries: 1 },
+    });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,42 @@
+// File: src/services/llm/createProvider.ts
+import { LLMProvider } from './provider';
+import { OpenAICompatibleProvider, OpenAIProvider } from './openAIProvider';
+import { FakeLLMProvider } from './fakeProvider';
+import { SupabaseProxyProvider } from './proxyProvider';
+
+export interface LLMProviderSettings {
+  // 'proxy' (default), 'openai-compatible', 'fake', or 'openai' for local
+  // development only (the key would ship inside the app bundle)
+  provider?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+// Build the provider described by app settings (EXPO_PUBLIC_LLM_* variables);
+// returns null when nothing usable is configured
+export const createLLMProvider = (settings: LLMProviderSettings): LLMProvider | null => {
+  const provider = settings.provider || (settings.baseUrl ? 'openai-compatible' : 'proxy');
+
+  switch (provider) {
+    case 'proxy':
+      return new SupabaseProxyProvider();
+    case 'fake':
+      return new FakeLLMProvider();
+    case 'openai-compatible':
+      if (!settings.baseUrl || !settings.model) {
+        console.warn('LLM provider: openai-compatible needs a base URL and a model');
+        return null;
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        apiKey: settings.apiKey,
+      });
+    case 'openai':
+      return settings.apiKey ? new OpenAIProvider(settings.apiKey, settings.model || undefined) : null;
+    default:
+      console.warn(`LLM provider: unknown provider "${provider}"`);
+      return null;
+  }
+};
@@ -0,0 +1,178 @@
+// File: src/services/llm/fakeProvider.ts
+import { LLMProvider, LLMRequest, LLMResponse } from './provider';
+import { RequestCancelledError } from './request';
+
+export type FakeResponder = (request: LLMRequest) => string;
+
+const MAX_FAKE_TOPICS = 15;
+
+// Deterministic provider for offline runs and CI: the same prompt always
+// gives the same reply. Pass a responder to script replies explicitly.
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly responder: FakeResponder = defaultResponder) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    if (request.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    return { content: this.responder(request), model: 'fake' };
+  }
+}
+
+// Answers the topic extraction, quiz generation and answer grading prompts
+// from the text in the prompt itself; anything else gets an empty JSON object
+const defaultResponder: FakeResponder = request => {
+  const prompt = request.messages.filter(message => message.role === 'user').pop()?.content || '';
+
+  if (prompt.includes('Syllabus Text:')) {
+    return JSON.stringify({ topics: fakeTopics(prompt.split('Syllabus Text:')[1]) });
+  }
+  if (prompt.includes('Course Topics:')) {
+    return JSON.stringify({ questions: fakeQuestions(prompt) });
+  }
+  if (prompt.includes('Student Answers:')) {
+    return JSON.stringify({ grades: fakeGrades(prompt.split('Student Answers:')[1]) });
+  }
+  return '{}';
+};
+
+interface FakeTopic {
+  title: string;
+  keywords: string[];
+  subtopics: FakeTopic[];
+}
+
+// Headings become topics, deeper headings under them subtopics, and the
+// bullets under a heading become its keywords
+const fakeTopics = (syllabus: string): FakeTopic[] => {
+  const topics: FakeTopic[] = [];
+  const lines = syllabus.split('\n').map(line => line.trim());
+  let unitLevel = 0;
+  let current: FakeTopic | undefined;
+
+  lines.forEach(line => {
+    const heading = /^(#{1,6})\s+(.+)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      current = { title: heading[2], keywords: [], subtopics: [] };
+      const unit = topics[topics.length - 1];
+      if (unit && level > unitLevel) {
+        unit.subtopics.push(current);
+      } else {
+        topics.push(current);
+        unitLevel = level;
+      }
+      return;
+    }
+    const bullet = /^-\s+(.+)$/.exec(line);
+    if (bullet && current && current.keywords.length < 5 && !current.keywords.includes(bullet[1])) {
+      current.keywords.push(bullet[1]);
+    }
+  });
+
+  // Unstructured text: fall back to the first lines
+  if (topics.length === 0) {
+    lines
+      .filter(line => line && !line.startsWith('Respond with'))
+      .slice(0, 5)
+      .forEach(line => topics.push({ title: line.slice(0, 60), keywords: [], subtopics: [] }));
+  }
+
+  return topics.slice(0, MAX_FAKE_TOPICS);
+};
+
+// The answer fields of a question about `title`, for each question type
+const fakeAnswerFields = (type: string, title: string): object => {
+  switch (type) {
+    case 'true_false':
+      return { correctAnswer: true };
+    case 'multi_select':
+      return { options: [title, `Concepts from ${title}`, 'An unrelated subject', 'A topic from another course'], correctAnswers: [0, 1] };
+    case 'fill_blank':
+      return { acceptedAnswers: [title] };
+    case 'ordering':
+      return { items: [`Introduce ${title}`, `Practice ${title}`, `Review ${title}`] };
+    case 'matching':
+      return { pairs: [{ prompt: 'Topic', match: title }, { prompt: 'Unrelated', match: 'Another subject' }] };
+    case 'short_answer':
+      return { rubric: `Names ${title}`, sampleAnswer: `This question is about ${title}.` };
+    default:
+      return { options: [title, 'None of these topics', 'A topic from another course', 'An unrelated subject'], correctAnswer: 0 };
+  }
+};
+
+const FAKE_QUESTION_TEXT: { [type: string]: (index: number) => string } = {
+  true_false: index => `Question ${index} is about the topic listed for it.`,
+  fill_blank: index => `Question ${index} covers ___.`,
+  ordering: index => `Put the study steps for question ${index} in order.`,
+  matching: index => `Match each label in question ${index} to its topic.`,
+  short_answer: index => `In a sentence, which topic does question ${index} cover?`,
+};
+
+// One question per numbered topic, cycling until the requested count and
+// through the question types the prompt lists. A topic's first listed source
+// passage is cited.
+const fakeQuestions = (prompt: string) => {
+  const count = Number(/Write (\d+)/.exec(prompt)?.[1]) || 5;
+  const types = [...prompt.matchAll(/^- "(\w+)": /gm)].map(match => match[1]);
+  const topicList = prompt.split('Course Topics:')[1] || '';
+  const topics: { number: number; title: string; source?: string }[] = [];
+  topicList.split('\n').forEach(line => {
+    const topic = /^(\d+)\.\s+(.+?)(?:\s+\(key concepts: .*\))?$/.exec(line.trim());
+    if (topic) {
+      topics.push({ number: Number(topic[1]), title: topic[2] });
+      return;
+    }
+    const sources = /^-\s+Sources:\s+(S\d+)/.exec(line.trim());
+    const current = topics[topics.length - 1];
+    if (sources && current) {
+      current.source = sources[1];
+    }
+  });
+
+  if (topics.length === 0) {
+    return [];
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const topic = topics[index % topics.length];
+    const type = types.length > 0 ? types[index % types.length] : 'multiple_choice';
+    return {
+      type,
+      topicNumber: topic.number,
+      question: FAKE_QUESTION_TEXT[type]?.(index + 1) ?? `Which topic does question ${index + 1} cover?`,
+      ...fakeAnswerFields(type, topic.title),
+      explanation: `This question is about ${topic.title}.`,
+      difficulty: (['easy', 'medium', 'hard'] as const)[index % 3],
+      source: topic.source,
+    };
+  });
+};
+
+const wordSet = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
+// Scores each answer by the share of the sample answer's words it uses
+const fakeGrades = (answerList: string) =>
+  answerList
+    .split(/\n\s*\n/)
+    .map(block => ({
+      number: Number(/^\s*(\d+)\./.exec(block)?.[1]),
+      sample: /Sample answer: (.*)/.exec(block)?.[1] || '',
+      answer: /Student answer: (.*)/.exec(block)?.[1] || '',
+    }))
+    .filter(entry => entry.number > 0)
+    .map(entry => {
+      const sample = wordSet(entry.sample);
+      const answer = wordSet(entry.answer);
+      const used = [...sample].filter(word => answer.has(word)).length;
+      const score = sample.size > 0 ? Math.round((used / sample.size) * 100) : 0;
+      return {
+        answerNumber: entry.number,
+        score,
+        feedback: score >= 70 ? 'Covers the main point.' : 'Compare your answer with the sample answer.',
+      };
+    });
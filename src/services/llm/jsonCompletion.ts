@@ -0,0 +1,78 @@
+// File: src/services/llm/jsonCompletion.ts
+import { z } from 'zod';
+import { LLMProvider, LLMRequest } from './provider';
+
+// Longest earlier reply echoed back in the corrective prompt
+const MAX_ECHOED_REPLY = 4000;
+
+type ParseResult<T> = { success: true; data: T } | { success: false; error: string };
+
+// Parse model output as JSON, repairing common slips: code fences, prose
+// around the object and trailing commas
+export const parseJsonContent = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    const unfenced = content.replace(/```(?:json)?/gi, '');
+    const start = unfenced.search(/[{[]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+
+    const candidate = unfenced
+      .slice(start, end + 1)
+      .replace(/,\s*([}\]])/g, '$1');
+    return JSON.parse(candidate);
+  }
+};
+
+const parseWithSchema = <T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParseResult<T> => {
+  let json: unknown;
+  try {
+    json = parseJsonContent(content);
+  } catch (error: any) {
+    return { success: false, error: `malformed JSON (${error.message})` };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    return { success: false, error: `${issue.path.join('.') || 'response'}: ${issue.message}` };
+  }
+  return { success: true, data: result.data };
+};
+
+// Request a JSON reply and validate it against a schema. A malformed reply
+// gets exactly one corrective re-prompt before giving up.
+export const completeJson = async <T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> => {
+  const first = await provider.complete(request);
+  const firstResult = parseWithSchema(first.content, schema);
+  if (firstResult.success) {
+    return firstResult.data;
+  }
+
+  console.warn(`AI reply rejected (${firstResult.error}), asking the model to correct it`);
+
+  const retry = await provider.complete({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: first.content.slice(0, MAX_ECHOED_REPLY) },
+      {
+        role: 'user',
+        content: `Your previous reply could not be used: ${firstResult.error}. Reply again with only a valid JSON object in exactly the requested structure, without code fences or commentary.`,
+      },
+    ],
+  });
+
+  const retryResult = parseWithSchema(retry.content, schema);
+  if (!retryResult.success) {
+    throw new Error(`Invalid response format: ${retryResult.error}`);
+  }
+  return retryResult.data;
+};
@@ -0,0 +1,71 @@
+// File: src/services/llm/openAIProvider.ts
+import { LLMProvider, LLMRequest, LLMResponse } from './provider';
+import { fetchWithRetry, LLMRequestError, RetryPolicy } from './request';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string; // local servers usually don't need one
+  supportsJsonMode?: boolean; // send response_format: json_object (default true)
+  retry?: Partial<RetryPolicy>; // local models are slow; raise timeoutMs for them
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-3.5-turbo';
+
+// Any server implementing the OpenAI /chat/completions API
+// (OpenAI, Ollama, llama.cpp server, vLLM, LM Studio...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(private readonly config: OpenAICompatibleConfig) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const headers: { [key: string]: string } = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetchWithRetry(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.jsonMode && this.config.supportsJsonMode !== false
+          ? { response_format: { type: 'json_object' } }
+          : {}),
+      }),
+    }, { policy: this.config.retry, signal: request.signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMRequestError(
+        `${this.name} API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`,
+        response.status,
+        errorData.error?.code
+      );
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No content in ${this.name} response`);
+    }
+
+    return { content, model: data.model };
+  }
+}
+
+// The hosted OpenAI API
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = 'OpenAI';
+
+  constructor(apiKey: string, model: string = OPENAI_DEFAULT_MODEL, retry?: Partial<RetryPolicy>) {
+    super({ baseUrl: OPENAI_BASE_URL, model, apiKey, retry });
+  }
+}
@@ -0,0 +1,31 @@
+// File: src/services/llm/provider.ts
+
+// Chat-completion style interface the AI services talk to, so the backing
+// model can be OpenAI, a self-hosted OpenAI-compatible server or a fake.
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a request is for; the server-side proxy applies quotas per task
+export type LLMTask = 'topic_extraction' | 'quiz_generation' | 'answer_grading';
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean; // ask for a single JSON object as the reply
+  signal?: AbortSignal; // cancels the request, including pending retries
+}
+
+export interface LLMResponse {
+  content: string;
+  model?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
@@ -0,0 +1,51 @@
+// File: src/services/llm/proxyProvider.ts
+import { supabase, EDGE_FUNCTIONS, FUNCTIONS_URL, SUPABASE_ANON_KEY } from '../supabase/config';
+import { LLMProvider, LLMRequest, LLMResponse } from './provider';
+import { fetchWithRetry, LLMRequestError, RetryPolicy } from './request';
+
+// Sends requests through the ai-proxy edge function, which holds the OpenAI
+// key, checks the user's session and applies per-user quotas
+export class SupabaseProxyProvider implements LLMProvider {
+  readonly name = 'AI proxy';
+
+  constructor(private readonly retry?: Partial<RetryPolicy>) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You need to be signed in to use AI features');
+    }
+
+    const response = await fetchWithRetry(`${FUNCTIONS_URL}/${EDGE_FUNCTIONS.AI_PROXY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({
+        task: request.task,
+        messages: request.messages,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        jsonMode: request.jsonMode,
+      }),
+    }, { policy: this.retry, signal: request.signal });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `${this.name} error: ${response.status} - ${data.error?.message || 'Unknown error'}`,
+        response.status,
+        data.error?.code
+      );
+    }
+
+    if (!data.content) {
+      throw new Error(`No content in ${this.name} response`);
+    }
+
+    return { content: data.content, model: data.model };
+  }
+}
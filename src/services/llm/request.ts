@@ -0,0 +1,173 @@
+// File: src/services/llm/request.ts
+
+// Shared HTTP layer for AI requests: per-attempt timeouts, exponential
+// backoff with jitter on 429/5xx and network failures, Retry-After support
+// and cancellation through an AbortSignal. A timed-out attempt, or one a
+// gateway answered with 504, may still have run (and been billed) on the
+// server, so it is only retried for idempotent requests.
+
+export interface RetryPolicy {
+  timeoutMs: number; // per attempt
+  maxRetries: number; // retries after the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number; // cap for computed backoff
+  maxRetryAfterMs: number; // longest server-requested wait we honour
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 60000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxRetryAfterMs: 60000,
+};
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// An error status from the AI service, with the error code from the response
+// body when there is one
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// Code the ai-proxy sends once a user's daily quota for a task is used up
+export const DAILY_QUOTA_ERROR_CODE = 'daily_quota_exceeded';
+
+// Codes no later request will get past: a used-up quota or billing limit, or
+// a bad API key
+const FATAL_ERROR_CODES = [DAILY_QUOTA_ERROR_CODE, 'insufficient_quota', 'invalid_api_key'];
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof RequestCancelledError;
+
+// Whether retrying or sending the next request is pointless: the session or
+// key is rejected, or the quota is used up
+export const isFatalRequestError = (error: unknown): boolean =>
+  error instanceof LLMRequestError
+  && (error.status === 401 || error.status === 403 || FATAL_ERROR_CODES.includes(error.code ?? ''));
+
+// Methods that can safely run twice
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// 504 is a timeout further along, retried on the same terms as our own
+const isRetryableStatus = (status: number, idempotent: boolean): boolean =>
+  status === 429 || (status >= 500 && status <= 599 && (status !== 504 || idempotent));
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null, now: number): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+};
+
+// "Full jitter": a random delay up to the exponential cap
+const backoffDelay = (attempt: number, policy: RetryPolicy): number =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One attempt with its own timeout, also aborted when the caller cancels
+const fetchOnce = async (
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    if (timedOut) throw new RequestTimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Fetch with retries. Returns the final response (which may still be an
+// error status for the caller to report) or throws on cancellation, on a
+// timeout that can't be retried, or when every attempt failed without a
+// response. `idempotent` defaults to what the HTTP method implies.
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  options: { policy?: Partial<RetryPolicy>; signal?: AbortSignal; idempotent?: boolean } = {}
+): Promise<Response> => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const { signal } = options;
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes((init.method ?? 'GET').toUpperCase());
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    const canRetry = attempt < policy.maxRetries;
+    let delay: number;
+
+    try {
+      const response = await fetchOnce(url, init, policy.timeoutMs, signal);
+      if (response.ok || !isRetryableStatus(response.status, idempotent) || !canRetry) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), Date.now());
+      if (retryAfter !== null && retryAfter > policy.maxRetryAfterMs) {
+        return response; // e.g. a daily quota; retrying now won't help
+      }
+      delay = retryAfter ?? backoffDelay(attempt, policy);
+      console.warn(`AI request got ${response.status}, retrying in ${Math.round(delay)}ms`);
+    } catch (error) {
+      if (isCancelledError(error) || !canRetry || (error instanceof RequestTimeoutError && !idempotent)) {
+        throw error;
+      }
+      delay = backoffDelay(attempt, policy);
+      console.warn(`AI request failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms`);
+    }
+
+    await sleep(delay, signal);
+  }
+};
@@ -0,0 +1,80 @@
+import { TopicExtractionService } from '../topicExtraction';
+import { FakeLLMProvider } from '../../llm/fakeProvider';
+import { DAILY_QUOTA_ERROR_CODE, LLMRequestError } from '../../llm/request';
+import { LLMProvider } from '../../llm/provider';
+
+const SYLLABUS = `
+# Introduction to Biology
+
+## Cell Structure
+- Cell membrane
+- Mitochondria
+- Nucleus
+
+## Genetics
+- DNA replication
+- Mendelian inheritance
+
+# Ecology
+
+## Ecosystems
+- Food webs
+- Energy flow
+`;
+
+describe('TopicExtractionService.extractTopics', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    TopicExtractionService.setProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('extracts units, subtopics and keywords offline with the fake provider', async () => {
+    const provider = new FakeLLMProvider();
+    TopicExtractionService.setProvider(provider);
+
+    const result = await TopicExtractionService.extractTopics(SYLLABUS);
+
+    expect(result.success).toBe(true);
+    expect(result.topics.map(topic => topic.title)).toEqual([
+      'Introduction to Biology',
+      'Cell Structure',
+      'Genetics',
+      'Ecology',
+      'Ecosystems',
+    ]);
+    expect(result.topics.map(topic => topic.order)).toEqual([1, 2, 3, 4, 5]);
+
+    const [biology, cells, genetics, ecology, ecosystems] = result.topics;
+    expect(biology.parentId ?? null).toBeNull();
+    expect(cells.parentId).toBe(biology.id);
+    expect(genetics.parentId).toBe(biology.id);
+    expect(ecosystems.parentId).toBe(ecology.id);
+    expect(cells.keywords).toEqual(['Cell membrane', 'Mitochondria', 'Nucleus']);
+
+    expect(result.metadata?.chunksProcessed).toBe(1);
+    expect(result.metadata?.coverage).toBe(100);
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].task).toBe('topic_extraction');
+  });
+
+  it('reports a used-up daily quota from its error code', async () => {
+    const provider: LLMProvider = {
+      name: 'quota',
+      complete: jest.fn(async () => {
+        throw new LLMRequestError('ai-proxy error: 429 - Limit reached', 429, DAILY_QUOTA_ERROR_CODE);
+      }),
+    };
+    TopicExtractionService.setProvider(provider);
+
+    const result = await TopicExtractionService.extractTopics(SYLLABUS);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("You've reached today's AI limit. Please try again tomorrow.");
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+});
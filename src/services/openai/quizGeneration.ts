@@ -0,0 +1,423 @@
+import { CoursePassage, QuestionSource, QuestionType, QuizQuestion, Topic } from '../../types';
+import { GenerationConfig } from './topicExtraction';
+import { LLMProvider } from '../llm/provider';
+import { completeJson } from '../llm/jsonCompletion';
+import { DAILY_QUOTA_ERROR_CODE, isFatalRequestError, LLMRequestError, RequestTimeoutError } from '../llm/request';
+import { createQuizQuestionSchema, questionsResponseSchema } from '../../schemas/aiResponseSchemas';
+import { selectPassagesForTopics } from '../search/passageRetrieval';
+
+// Types for quiz generation
+export type QuizDifficulty = QuizQuestion['difficulty'];
+
+export interface QuizGenerationOptions {
+  questionCount?: number;
+  difficulty?: QuizDifficulty | 'mixed';
+  topicDifficulties?: QuizDifficulty[]; // per topic, in topic order; overrides `difficulty`
+  questionTypes?: QuestionType[]; // types to choose from; all of them by default
+  passages?: CoursePassage[]; // course material text to ground questions in
+  signal?: AbortSignal; // abort to cancel generation, including retries
+}
+
+// Passages given to the model, labelled S1, S2, ... and the labels each topic may use
+interface Grounding {
+  passages: Map<string, CoursePassage>;
+  topicLabels: string[][];
+}
+
+export interface QuizGenerationResponse {
+  success: boolean;
+  questions: QuizQuestion[];
+  error?: string;
+  metadata?: {
+    totalQuestions: number;
+    processingTime: number;
+    topicsCovered: number;
+    discardedQuestions: number;
+    citedQuestions: number;
+  };
+}
+
+const OPTIONS_PER_QUESTION = 4;
+const quizQuestionSchema = createQuizQuestionSchema(OPTIONS_PER_QUESTION);
+
+// The fields each question type adds, as described to the model
+const QUESTION_TYPE_FORMATS: { [type in QuestionType]: string } = {
+  multiple_choice: `"options" (exactly ${OPTIONS_PER_QUESTION} distinct options), "correctAnswer" (zero-based index of the one correct option)`,
+  true_false: '"question" is a statement, "correctAnswer" is true or false',
+  multi_select: `"options" (${OPTIONS_PER_QUESTION} to 6 distinct options), "correctAnswers" (zero-based indexes of every correct option, at least 2)`,
+  fill_blank: '"question" with the missing word or phrase written as ___, "acceptedAnswers" (every acceptable way to write it)',
+  ordering: '"items" (3 to 6 steps, stages or events, listed in the correct order)',
+  matching: '"pairs" (3 to 5 objects like {"prompt": "Term", "match": "Definition"})',
+  short_answer: '"rubric" (the points a full-credit answer must make), "sampleAnswer" (a model answer of one to three sentences)',
+};
+const ALL_QUESTION_TYPES = Object.keys(QUESTION_TYPE_FORMATS) as QuestionType[];
+
+// Answer fields of the example question in the prompt
+const EXAMPLE_FIELDS: { [type in QuestionType]: string } = {
+  multiple_choice: '"options": ["Option A", "Option B", "Option C", "Option D"],\n      "correctAnswer": 0',
+  true_false: '"correctAnswer": true',
+  multi_select: '"options": ["Option A", "Option B", "Option C", "Option D"],\n      "correctAnswers": [0, 2]',
+  fill_blank: '"acceptedAnswers": ["answer", "alternative spelling"]',
+  ordering: '"items": ["First step", "Second step", "Third step"]',
+  matching: '"pairs": [{"prompt": "Term 1", "match": "Definition 1"}, {"prompt": "Term 2", "match": "Definition 2"}]',
+  short_answer: '"rubric": "Names X and explains why Y",\n      "sampleAnswer": "A model answer"',
+};
+// Characters of each passage shown to the model, and kept as the citation excerpt
+const PROMPT_PASSAGE_LENGTH = 800;
+const EXCERPT_LENGTH = 300;
+
+export class QuizGenerationService {
+  private static provider: LLMProvider | null = null;
+  private static config: GenerationConfig = {
+    maxTokens: 3000,
+    temperature: 0.5, // Slightly higher than extraction for varied questions
+  };
+
+  // Use any LLM provider (AI proxy, self-hosted, fake)
+  static setProvider(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  // Main quiz generation method
+  static async generateQuestions(
+    topics: Topic[],
+    options: QuizGenerationOptions = {}
+  ): Promise<QuizGenerationResponse> {
+    const startTime = Date.now();
+    const questionCount = options.questionCount ?? 5;
+    const difficulty = options.difficulty ?? 'mixed';
+
+    try {
+      // Validate inputs
+      const provider = this.provider;
+      if (!provider) {
+        return {
+          success: false,
+          questions: [],
+          error: 'AI provider not configured',
+        };
+      }
+
+      if (topics.length === 0) {
+        return {
+          success: false,
+          questions: [],
+          error: 'No topics available. Add topics to this course before generating a quiz.',
+        };
+      }
+
+      // Create the prompt, with the course material relevant to each topic
+      const grounding = this.createGrounding(topics, options.passages || []);
+      const questionTypes = options.questionTypes?.length ? options.questionTypes : ALL_QUESTION_TYPES;
+      const topicDifficulties = options.topicDifficulties?.length === topics.length ? options.topicDifficulties : undefined;
+      const prompt = this.createGenerationPrompt(
+        topics,
+        questionCount,
+        topicDifficulties ?? difficulty,
+        questionTypes,
+        grounding
+      );
+
+      // Call the model
+      const response = await completeJson(provider, {
+        task: 'quiz_generation',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an experienced university instructor. Write clear, accurate quiz questions that test understanding rather than memorization.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        jsonMode: true,
+        signal: options.signal,
+      }, questionsResponseSchema);
+
+      // Parse and validate the response
+      const { questions, discarded } = this.validateQuestions(response.questions, topics, grounding, topicDifficulties);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        questions,
+        metadata: {
+          totalQuestions: questions.length,
+          processingTime,
+          topicsCovered: new Set(questions.map(q => q.topicId)).size,
+          discardedQuestions: discarded,
+          citedQuestions: questions.filter(q => q.source).length,
+        },
+      };
+
+    } catch (error: any) {
+      console.error('Quiz generation error:', error);
+
+      return {
+        success: false,
+        questions: [],
+        error: this.getErrorMessage(error),
+      };
+    }
+  }
+
+  // Label the passages most relevant to each topic
+  private static createGrounding(topics: Topic[], passages: CoursePassage[]): Grounding {
+    const labels = new Map<string, string>(); // passage id -> label
+    const grounding: Grounding = { passages: new Map(), topicLabels: [] };
+
+    selectPassagesForTopics(topics, passages).forEach(topicPassages => {
+      grounding.topicLabels.push(topicPassages.map(passage => {
+        if (!labels.has(passage.id)) {
+          const label = `S${labels.size + 1}`;
+          labels.set(passage.id, label);
+          grounding.passages.set(label, passage);
+        }
+        return labels.get(passage.id)!;
+      }));
+    });
+
+    return grounding;
+  }
+
+  // Create prompt listing the source passages and the course topics by number
+  private static createGenerationPrompt(
+    topics: Topic[],
+    questionCount: number,
+    difficulty: QuizDifficulty | 'mixed' | QuizDifficulty[],
+    questionTypes: QuestionType[],
+    grounding: Grounding
+  ): string {
+    const topicList = topics
+      .map((topic, index) => {
+        const keywords = topic.keywords || [];
+        const line = `${index + 1}. ${topic.title}${keywords.length > 0 ? ` (key concepts: ${keywords.join(', ')})` : ''}`;
+        const objectives = (topic.learningObjectives || []).map(objective => `   - Objective: ${objective}`);
+        const sources = grounding.topicLabels[index]?.length
+          ? [`   - Sources: ${grounding.topicLabels[index].join(', ')}`]
+          : [];
+        const level = Array.isArray(difficulty) ? [`   - Difficulty: ${difficulty[index]}`] : [];
+        return [line, ...objectives, ...sources, ...level].join('\n');
+      })
+      .join('\n');
+
+    // Passages go before the topic list so the list stays the end of the prompt
+    const passageList = [...grounding.passages.entries()]
+      .map(([label, passage]) => {
+        const location = [passage.materialTitle, passage.heading].filter(Boolean).join(' > ');
+        return `[${label}]${location ? ` (${location})` : ''}\n${passage.content.slice(0, PROMPT_PASSAGE_LENGTH)}`;
+      })
+      .join('\n\n');
+    const passageSection = passageList ? `\nSource Passages:\n${passageList}\n` : '';
+    const sourceGuideline = passageList
+      ? `\n- When a topic lists sources, base its questions on those passages only and set "source" to the label of the passage the answer comes from (e.g. "S1")`
+      : '';
+
+    const difficultyGuideline = Array.isArray(difficulty)
+      ? '- Write each question at the difficulty listed for its topic'
+      : difficulty === 'mixed'
+        ? '- Mix difficulties: roughly a third each of "easy", "medium" and "hard"'
+        : `- Every question must be "${difficulty}" difficulty`;
+
+    const typeList = questionTypes.map(type => `- "${type}": ${QUESTION_TYPE_FORMATS[type]}`).join('\n');
+    const typeGuideline = questionTypes.length === 1
+      ? `- Every question must be of type "${questionTypes[0]}"`
+      : '- Mix the question types, picking the one that best fits what each question tests';
+    const example = questionTypes.includes('multiple_choice') ? 'multiple_choice' : questionTypes[0];
+
+    return `
+Write ${questionCount} quiz questions covering the course topics below.
+
+Format your response as a JSON object with this exact structure (shown for a "${example}" question):
+{
+  "questions": [
+    {
+      "type": "${example}",
+      "topicNumber": 1,
+      "question": "Question text?",
+      ${EXAMPLE_FIELDS[example]},
+      "explanation": "Why the correct answer is right",
+      "difficulty": "easy"${passageList ? ',\n      "source": "S1"' : ''}
+    }
+  ]
+}
+
+Question types, and the fields each adds to the ones above:
+${typeList}
+
+Guidelines:
+- "topicNumber" is the number of the topic the question tests, from the list below
+- Spread questions across the topics as evenly as possible
+- When a topic lists objectives, each question for it should test one of those objectives
+${typeGuideline}
+- Keep the explanation to one or two sentences
+${difficultyGuideline}
+- Avoid "all of the above" and "none of the above"${sourceGuideline}
+${passageSection}
+Course Topics:
+${topicList}
+
+Respond with valid JSON only:`;
+  }
+
+  // Validate each question on its own, keeping only those that pass
+  private static validateQuestions(
+    rawQuestions: unknown[],
+    topics: Topic[],
+    grounding: Grounding,
+    topicDifficulties?: QuizDifficulty[]
+  ): { questions: QuizQuestion[]; discarded: number } {
+    const questions: QuizQuestion[] = [];
+    let discarded = 0;
+
+    rawQuestions.forEach((raw, index) => {
+      const question = this.validateQuestion(raw, topics, grounding, questions.length + 1, topicDifficulties);
+      if (question) {
+        questions.push(question);
+      } else {
+        console.warn(`Discarding invalid quiz question ${index + 1}:`, raw);
+        discarded++;
+      }
+    });
+
+    if (questions.length === 0) {
+      throw new Error('Failed to parse AI response: No valid questions generated');
+    }
+
+    return { questions, discarded };
+  }
+
+  // Validate (and where possible repair) a single raw question, returning null if it is unusable
+  private static validateQuestion(
+    raw: unknown,
+    topics: Topic[],
+    grounding: Grounding,
+    position: number,
+    topicDifficulties?: QuizDifficulty[]
+  ): QuizQuestion | null {
+    const result = quizQuestionSchema.safeParse(raw);
+    if (!result.success) {
+      return null;
+    }
+
+    const data = result.data;
+    const sourceTopic = topics[data.topicNumber - 1];
+    if (!sourceTopic) {
+      return null;
+    }
+
+    // Cite the passage the model named, falling back to the topic's best match
+    const topicLabels = grounding.topicLabels[data.topicNumber - 1] || [];
+    const label = data.source && grounding.passages.has(data.source) ? data.source : topicLabels[0];
+    const passage = label ? grounding.passages.get(label) : undefined;
+
+    const base = {
+      id: `question-${position}`,
+      question: data.question,
+      explanation: data.explanation || undefined,
+      // A requested difficulty is what the question was written to, and what
+      // the topic's mastery estimate is updated against
+      difficulty: topicDifficulties?.[data.topicNumber - 1] ?? data.difficulty,
+      topic: sourceTopic.title,
+      topicId: sourceTopic.id,
+      source: passage ? this.toSource(passage) : undefined,
+    };
+
+    // Ordering items and matching choices come back in answer order, so
+    // they are shuffled for display and the answer kept as indexes
+    switch (data.type) {
+      case 'multiple_choice':
+        return { ...base, type: data.type, options: data.options, correctAnswer: data.correctAnswer };
+      case 'true_false':
+        return { ...base, type: data.type, correctAnswer: data.correctAnswer };
+      case 'multi_select':
+        return { ...base, type: data.type, options: data.options, correctAnswers: [...data.correctAnswers].sort((a, b) => a - b) };
+      case 'fill_blank':
+        return { ...base, type: data.type, acceptedAnswers: data.acceptedAnswers };
+      case 'ordering': {
+        const order = this.shuffledIndexes(data.items.length);
+        return {
+          ...base,
+          type: data.type,
+          items: order.map(index => data.items[index]),
+          correctOrder: data.items.map((_, index) => order.indexOf(index)),
+        };
+      }
+      case 'matching': {
+        const order = this.shuffledIndexes(data.pairs.length);
+        return {
+          ...base,
+          type: data.type,
+          prompts: data.pairs.map(pair => pair.prompt),
+          choices: order.map(index => data.pairs[index].match),
+          correctMatches: data.pairs.map((_, index) => order.indexOf(index)),
+        };
+      }
+      case 'short_answer':
+        return { ...base, type: data.type, rubric: data.rubric, sampleAnswer: data.sampleAnswer };
+    }
+  }
+
+  // A random order of 0..count-1 that never leaves everything in place
+  private static shuffledIndexes(count: number): number[] {
+    const order = Array.from({ length: count }, (_, index) => index);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order.every((value, index) => value === index) ? [...order.slice(1), order[0]] : order;
+  }
+
+  private static toSource(passage: CoursePassage): QuestionSource {
+    const excerpt = passage.content.length > EXCERPT_LENGTH
+      ? `${passage.content.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…`
+      : passage.content;
+    return {
+      passageId: passage.id,
+      materialTitle: passage.materialTitle ?? null,
+      heading: passage.heading,
+      excerpt,
+    };
+  }
+
+  // Get user-friendly error message
+  private static getErrorMessage(error: any): string {
+    const message = error.message || 'Unknown error';
+
+    // Typed errors from the AI service: quota, key and session problems no
+    // retry will fix, then rate limits and upstream timeouts
+    if (isFatalRequestError(error)) {
+      if (error.code === DAILY_QUOTA_ERROR_CODE) {
+        return "You've reached today's AI limit. Please try again tomorrow.";
+      }
+      if (error.code === 'invalid_api_key') {
+        return 'AI provider API key is invalid or missing. Please check your configuration.';
+      }
+      if (error.code === 'insufficient_quota') {
+        return 'AI provider quota exceeded. Please check your billing settings.';
+      }
+      return 'The AI service rejected the request. Please sign in again or check your AI settings.';
+    }
+
+    if (error instanceof LLMRequestError && error.status === 429) {
+      return 'Too many requests. Please wait a moment and try again.';
+    }
+
+    if (error instanceof RequestTimeoutError || (error instanceof LLMRequestError && error.status === 504)) {
+      return 'The AI service took too long to respond. Please try again.';
+    }
+
+    if (message.includes('Invalid response format')) {
+      return 'The AI service returned an unreadable response. Please try again.';
+    }
+
+    if (message.includes('network') || message.includes('fetch')) {
+      return 'Network error. Please check your internet connection and try again.';
+    }
+
+    return `Quiz generation failed: ${message}`;
+  }
+}
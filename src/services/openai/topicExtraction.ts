@@ -1,53 +1,108 @@
+import { SyllabusTextNormalizer, WeekRange, chunkText } from '../text/syllabusText';
+import { getTitleWords, isSameTitle } from '../text/titleMatching';
+import { LOW_CONFIDENCE_THRESHOLD, TopicGroundingScorer, TopicSource } from '../text/topicGrounding';
+import { LLMProvider } from '../llm/provider';
+import { DAILY_QUOTA_ERROR_CODE, isCancelledError, isFatalRequestError, LLMRequestError, RequestTimeoutError } from '../llm/request';
+import { completeJson } from '../llm/jsonCompletion';
+import { assessmentSchema, extractedTopicSchema, topicsResponseSchema } from '../../schemas/aiResponseSchemas';
+import { Assessment } from '../../types';
+
 // Types for topic extraction
 export interface ExtractedTopic {
     id: string;
     title: string;
     order: number;
     keywords?: string[];
+    notes?: string; // saved as Topic.content
+    parentId?: string | null; // set on subtopics; always listed after their unit
+    learningObjectives?: string[];
+    weeks?: WeekRange; // course weeks the topic is taught in
+    confidence?: number; // 0-100, how well the topic is grounded in the syllabus
+    source?: TopicSource | null; // where in the syllabus it was found
+    confidenceIssues?: string[]; // why the confidence is lower
+  }
+  
+  // Dates found in the syllabus, saved on the course with the topics
+  export interface ExtractedSchedule {
+    startDate: string | null; // first day of week 1, when the syllabus says
+    assessments: Assessment[];
   }
   
   export interface TopicExtractionResponse {
     success: boolean;
     topics: ExtractedTopic[];
+    schedule?: ExtractedSchedule;
     error?: string;
+    cancelled?: boolean; // the caller aborted the request
     metadata?: {
       totalTopics: number;
       processingTime: number;
       confidence: number;
+      lowConfidenceTopics: number; // topics below LOW_CONFIDENCE_THRESHOLD
+      chunksTotal: number;
+      chunksProcessed: number;
+      coverage: number; // % of the syllabus text that was successfully analyzed
     };
   }
   
-  export interface OpenAIConfig {
-    apiKey: string;
-    model?: string;
-    maxTokens?: number;
-    temperature?: number;
+  export interface TopicExtractionOptions {
+    signal?: AbortSignal; // abort to cancel extraction, including retries
+  }
+  
+  // A unit and its subtopics as returned for one chunk, before ids are assigned
+  interface TopicOutline {
+    title: string;
+    keywords?: string[];
+    learningObjectives?: string[];
+    weeks?: WeekRange;
+    subtopics: TopicOutline[];
   }
   
+  // Everything extracted from one chunk
+  interface ChunkExtraction {
+    topics: TopicOutline[];
+    startDate: string | null;
+    assessments: Assessment[];
+  }
+  
+  export interface GenerationConfig {
+    maxTokens: number;
+    temperature: number;
+  }
+  
+  // Long syllabi are split into overlapping chunks that are analyzed separately
+  const CHUNK_SIZE = 6000;
+  const CHUNK_OVERLAP = 600;
+  const MAX_TOPICS = 40; // units and subtopics together
+  const MAX_KEYWORDS = 8;
+  const MAX_OBJECTIVES = 6;
+  
   export class TopicExtractionService {
-    private static config: OpenAIConfig = {
-      apiKey: '', // Will be set from environment
-      model: 'gpt-3.5-turbo',
-      maxTokens: 2000,
+    private static provider: LLMProvider | null = null;
+    private static config: GenerationConfig = {
+      maxTokens: 3000,
       temperature: 0.3, // Lower temperature for more consistent results
     };
   
-    // Initialize with API key
-    static initialize(apiKey: string) {
-      this.config.apiKey = apiKey;
+    // Use any LLM provider (AI proxy, self-hosted, fake)
+    static setProvider(provider: LLMProvider | null) {
+      this.provider = provider;
     }
   
     // Main topic extraction method
-    static async extractTopics(syllabusText: string): Promise<TopicExtractionResponse> {
+    static async extractTopics(
+      syllabusText: string,
+      options: TopicExtractionOptions = {}
+    ): Promise<TopicExtractionResponse> {
       const startTime = Date.now();
   
       try {
         // Validate inputs
-        if (!this.config.apiKey) {
+        if (!this.provider) {
           return {
             success: false,
             topics: [],
-            error: 'OpenAI API key not configured',
+            error: 'AI provider not configured',
           };
         }
   
@@ -59,59 +114,66 @@ export interface ExtractedTopic {
           };
         }
   
-        // Clean and prepare the text
+        // Clean and split the text so nothing past the first few pages is lost
         const cleanedText = this.cleanSyllabusText(syllabusText);
-        
-        // Create the prompt
-        const prompt = this.createExtractionPrompt(cleanedText);
-  
-        // Call OpenAI API
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.apiKey}`,
-          },
-          body: JSON.stringify({
-            model: this.config.model,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert educational content analyzer. Extract course topics from syllabi with high accuracy and consistency.',
-              },
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-            max_tokens: this.config.maxTokens,
-            temperature: this.config.temperature,
-            response_format: { type: 'json_object' },
-          }),
-        });
+        const chunks = chunkText(cleanedText, CHUNK_SIZE, CHUNK_OVERLAP);
+  
+        // Map: extract topics from each chunk in order
+        const chunkResults: ChunkExtraction[] = [];
+        const coveredRanges: { start: number; end: number }[] = [];
+        let firstError: any = null;
+  
+        for (let index = 0; index < chunks.length; index++) {
+          try {
+            const result = await this.requestTopics(chunks[index].text, index + 1, chunks.length, options.signal);
+            chunkResults.push(result);
+            coveredRanges.push(chunks[index]);
+          } catch (error: any) {
+            // Cancellation, a rejected key and a used-up quota apply to every chunk
+            if (isCancelledError(error) || isFatalRequestError(error)) {
+              throw error;
+            }
+            console.error(`Topic extraction failed for chunk ${index + 1}/${chunks.length}:`, error);
+            firstError = firstError || error;
+          }
+        }
   
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+        if (chunkResults.length === 0) {
+          throw firstError || new Error('No valid topics extracted');
         }
   
-        const data = await response.json();
-        
-        // Parse and validate the response
-        const topics = await this.parseOpenAIResponse(data);
+        // Reduce: merge and de-duplicate into one ordered list
+        const topics = this.mergeTopics(chunkResults.map(result => result.topics));
+        this.fillWeeksFromHeadings(topics, cleanedText);
+        const confidence = this.scoreTopics(topics, cleanedText);
+        const schedule = this.mergeSchedules(chunkResults);
         const processingTime = Date.now() - startTime;
   
         return {
           success: true,
           topics,
+          schedule,
           metadata: {
             totalTopics: topics.length,
             processingTime,
-            confidence: this.calculateConfidence(topics),
+            confidence,
+            lowConfidenceTopics: topics.filter(topic => (topic.confidence ?? 100) < LOW_CONFIDENCE_THRESHOLD).length,
+            chunksTotal: chunks.length,
+            chunksProcessed: chunkResults.length,
+            coverage: this.calculateCoverage(coveredRanges, cleanedText.length),
           },
         };
   
       } catch (error: any) {
+        if (isCancelledError(error)) {
+          return {
+            success: false,
+            topics: [],
+            error: 'Topic extraction cancelled',
+            cancelled: true,
+          };
+        }
+  
         console.error('Topic extraction error:', error);
         
         return {
@@ -122,32 +184,106 @@ export interface ExtractedTopic {
       }
     }
   
+    // Extract topics from one chunk of the syllabus
+    private static async requestTopics(
+      text: string,
+      part: number,
+      totalParts: number,
+      signal?: AbortSignal
+    ): Promise<ChunkExtraction> {
+      const provider = this.provider;
+      if (!provider) {
+        throw new Error('AI provider not configured');
+      }
+  
+      const response = await completeJson(provider, {
+        task: 'topic_extraction',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert educational content analyzer. Extract course topics from syllabi with high accuracy and consistency.',
+          },
+          {
+            role: 'user',
+            content: this.createExtractionPrompt(text, part, totalParts),
+          },
+        ],
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        jsonMode: true,
+        signal,
+      }, topicsResponseSchema);
+  
+      return {
+        topics: this.validateTopics(response.topics),
+        startDate: response.startDate ?? null,
+        assessments: this.parseAssessments(response.assessments || []),
+      };
+    }
+  
     // Create optimized prompt for topic extraction
-    private static createExtractionPrompt(syllabusText: string): string {
-      return `
-  Please analyze the following course syllabus and extract the main topics/units that will be covered in the course.
+    private static createExtractionPrompt(syllabusText: string, part = 1, totalParts = 1): string {
+      const isPartial = totalParts > 1;
+      const scope = isPartial
+        ? `This is part ${part} of ${totalParts} of a longer syllabus (parts overlap slightly). Extract only the topics covered in this part; the parts will be merged afterwards.\n`
+        : '';
   
+      return `
+  Please analyze the following course syllabus and extract the main topics/units that will be covered in the course, with their subtopics.
+  ${scope}  
   For each topic, provide:
   1. A clear, concise title
   2. Key concepts/keywords related to the topic
+  3. Learning objectives: what a student should be able to do afterwards
+  4. Subtopics, when the syllabus breaks the topic down further
+  5. The course weeks it is taught in, when the syllabus says
+  
+  Also list the exams, quizzes, assignments and projects with their dates or weeks.
   
   Format your response as a JSON object with this exact structure:
   {
+    "startDate": "2025-09-02",
     "topics": [
       {
         "title": "Topic Title",
-        "keywords": ["keyword1", "keyword2", "keyword3"]
+        "weeks": "1-2",
+        "keywords": ["keyword1", "keyword2", "keyword3"],
+        "learningObjectives": ["Explain ...", "Apply ..."],
+        "subtopics": [
+          {
+            "title": "Subtopic Title",
+            "weeks": "1",
+            "keywords": ["keyword1", "keyword2"],
+            "learningObjectives": ["Describe ..."]
+          }
+        ]
+      }
+    ],
+    "assessments": [
+      {
+        "title": "Midterm Exam",
+        "type": "midterm",
+        "date": "2025-10-15",
+        "week": 8
       }
     ]
   }
   
   Guidelines:
-  - Extract 5-15 main topics (avoid too granular or too broad)
+  - Extract ${isPartial ? '2-10 main topics from this part' : '5-15 main topics'} (avoid too granular or too broad)
+  - Use the syllabus's own units/modules as topics when it has them, and the items listed under them as subtopics
+  - Use an empty "subtopics" list when the syllabus doesn't break a topic down; never nest subtopics further
   - Focus on learning objectives, not administrative details
+  - Prefer learning objectives stated in the syllabus; otherwise write 1-3 short ones starting with a verb
   - Order topics logically (introductory to advanced)
   - Be consistent with naming conventions
   - Skip course policies, grading, textbooks, etc.
   - Include 2-5 relevant keywords per topic
+  - "weeks" is a week number or range like "3-4"; use null when the syllabus doesn't schedule the topic
+  - "startDate" is the first day of classes (YYYY-MM-DD), or null if not stated
+  - Assessment "type" is one of: exam, midterm, final, quiz, assignment, project, other
+  - Assessment "date" must be YYYY-MM-DD and only when the syllabus gives a full date (null otherwise); "week" is its course week or null
+  - Include assessments listed without any date too (e.g. from a grading breakdown), with null date and week
   
   Syllabus Text:
   ${syllabusText}
@@ -157,85 +293,238 @@ export interface ExtractedTopic {
   
     // Clean and prepare syllabus text
     private static cleanSyllabusText(text: string): string {
-      return text
-        .replace(/\r\n/g, '\n')
-        .replace(/\r/g, '\n')
-        .replace(/\n{3,}/g, '\n\n')
-        .replace(/[ \t]+/g, ' ')
-        .trim()
-        .substring(0, 8000); // Limit length to stay within token limits
+      return SyllabusTextNormalizer.clean(text);
     }
   
-    // Parse OpenAI response and validate structure
-    private static async parseOpenAIResponse(data: any): Promise<ExtractedTopic[]> {
-      try {
-        const content = data.choices?.[0]?.message?.content;
-        if (!content) {
-          throw new Error('No content in OpenAI response');
+    // Merge per-chunk topics in document order, folding duplicates from
+    // overlaps: repeated units pool their subtopics, then subtopics are
+    // de-duplicated within each unit
+    private static mergeTopics(chunkTopics: TopicOutline[][]): ExtractedTopic[] {
+      const units = this.mergeOutlines(chunkTopics.flat());
+      const topics: ExtractedTopic[] = [];
+  
+      units.forEach(unit => {
+        const unitId = `topic-${topics.length + 1}`;
+        topics.push(this.toExtractedTopic(unit, unitId, topics.length + 1, null));
+  
+        this.mergeOutlines(unit.subtopics).forEach(subtopic => {
+          topics.push(this.toExtractedTopic(subtopic, `topic-${topics.length + 1}`, topics.length + 1, unitId));
+        });
+      });
+  
+      // Subtopics always follow their unit, so the cut never orphans one
+      return topics.slice(0, MAX_TOPICS);
+    }
+  
+    // Fold outlines with matching titles into the first occurrence
+    private static mergeOutlines(outlines: TopicOutline[]): TopicOutline[] {
+      const merged: { outline: TopicOutline; words: string[] }[] = [];
+  
+      outlines.forEach(outline => {
+        const words = getTitleWords(outline.title);
+        const duplicate = merged.find(entry => isSameTitle(entry.words, words));
+  
+        if (duplicate) {
+          const existing = duplicate.outline;
+          existing.keywords = this.mergeStrings(existing.keywords, outline.keywords, MAX_KEYWORDS);
+          existing.learningObjectives = this.mergeStrings(existing.learningObjectives, outline.learningObjectives, MAX_OBJECTIVES);
+          existing.weeks = this.mergeWeeks(existing.weeks, outline.weeks);
+          existing.subtopics = [...existing.subtopics, ...outline.subtopics];
+        } else {
+          merged.push({ outline: { ...outline }, words });
         }
+      });
   
-        const parsed = JSON.parse(content);
-        if (!parsed.topics || !Array.isArray(parsed.topics)) {
-          throw new Error('Invalid response format: topics array not found');
+      return merged.map(({ outline }) => outline);
+    }
+  
+    // Case-insensitive union of two lists, keeping the first spelling
+    private static mergeStrings(a: string[] = [], b: string[] = [], limit: number): string[] | undefined {
+      const all = [...a, ...b];
+      const unique = all.filter((item, index) =>
+        all.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index
+      );
+      return unique.length > 0 ? unique.slice(0, limit) : undefined;
+    }
+  
+    private static toExtractedTopic(
+      outline: TopicOutline,
+      id: string,
+      order: number,
+      parentId: string | null
+    ): ExtractedTopic {
+      return {
+        id,
+        title: outline.title,
+        order,
+        keywords: outline.keywords,
+        parentId,
+        learningObjectives: outline.learningObjectives,
+        weeks: outline.weeks,
+      };
+    }
+  
+    // Span of both ranges, e.g. a topic seen as weeks 3-4 in one chunk and 4-5 in the next
+    private static mergeWeeks(a?: WeekRange, b?: WeekRange): WeekRange | undefined {
+      if (!a || !b) return a || b;
+      return { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) };
+    }
+  
+    // Topics the model left unscheduled take the weeks of a matching
+    // "Week 3-4: ..." heading in the syllabus, if there is one
+    private static fillWeeksFromHeadings(topics: ExtractedTopic[], cleanedText: string): void {
+      const weekHeadings = SyllabusTextNormalizer.toSections(cleanedText)
+        .filter(section => section.heading && section.week)
+        .map(section => ({ words: getTitleWords(section.heading!), week: section.week! }));
+  
+      topics.forEach(topic => {
+        if (topic.weeks) return;
+        const words = getTitleWords(topic.title);
+        const match = weekHeadings.find(heading => isSameTitle(heading.words, words));
+        if (match) {
+          topic.weeks = { ...match.week };
         }
+      });
+    }
   
-        // Validate and transform topics
-        const topics: ExtractedTopic[] = parsed.topics.map((topic: any, index: number) => {
-          if (!topic.title) {
-            throw new Error(`Topic ${index + 1} missing title`);
-          }
+    // One schedule for the whole syllabus: the first start date found and the
+    // assessments from every chunk, without the copies from overlaps
+    private static mergeSchedules(results: ChunkExtraction[]): ExtractedSchedule {
+      const assessments: Assessment[] = [];
+  
+      results.flatMap(result => result.assessments).forEach(assessment => {
+        const words = getTitleWords(assessment.title);
+        const duplicate = assessments.find(existing =>
+          existing.type === assessment.type
+          && isSameTitle(getTitleWords(existing.title), words)
+          && (!existing.date || !assessment.date || existing.date === assessment.date)
+        );
+  
+        if (duplicate) {
+          duplicate.date = duplicate.date || assessment.date;
+          duplicate.week = duplicate.week ?? assessment.week;
+        } else {
+          assessments.push({ ...assessment });
+        }
+      });
   
-          return {
-            id: `topic-${index + 1}`,
-            title: topic.title.trim(),
-            order: index + 1,
-            keywords: Array.isArray(topic.keywords) ? topic.keywords.filter((k: any) => typeof k === 'string') : undefined,
-          };
-        });
+      return {
+        startDate: results.find(result => result.startDate)?.startDate ?? null,
+        assessments,
+      };
+    }
   
-        if (topics.length === 0) {
-          throw new Error('No valid topics extracted');
+    // Percentage of the text covered by successfully processed chunks
+    private static calculateCoverage(ranges: { start: number; end: number }[], totalLength: number): number {
+      if (totalLength === 0) return 0;
+  
+      const sorted = [...ranges].sort((a, b) => a.start - b.start);
+      let covered = 0;
+      let coveredUntil = 0;
+      sorted.forEach(({ start, end }) => {
+        const from = Math.max(start, coveredUntil);
+        if (end > from) {
+          covered += end - from;
+          coveredUntil = end;
         }
+      });
   
-        return topics;
+      return Math.round((covered / totalLength) * 100);
+    }
   
-      } catch (error: any) {
-        console.error('Response parsing error:', error);
-        throw new Error(`Failed to parse AI response: ${error.message}`);
+    // Validate each topic on its own, dropping entries that can't be repaired
+    private static validateTopics(rawTopics: unknown[]): TopicOutline[] {
+      const topics = this.parseOutlines(rawTopics, 'topic');
+  
+      if (topics.length === 0) {
+        throw new Error('Failed to parse AI response: No valid topics extracted');
       }
+  
+      return topics;
     }
   
-    // Calculate confidence score based on topic quality
-    private static calculateConfidence(topics: ExtractedTopic[]): number {
-      let score = 0;
-      
-      // Base score for having topics
-      if (topics.length > 0) score += 40;
-      
-      // Score for reasonable number of topics
-      if (topics.length >= 5 && topics.length <= 15) score += 30;
-      
-      // Score for topics with keywords
-      const withKeywords = topics.filter(t => t.keywords && t.keywords.length > 0).length;
-      score += (withKeywords / topics.length) * 30;
-      
-      return Math.min(100, Math.max(0, score));
+    // Assessments are optional extras: invalid ones are dropped quietly
+    private static parseAssessments(rawAssessments: unknown[]): Assessment[] {
+      return rawAssessments.flatMap(raw => {
+        const result = assessmentSchema.safeParse(raw);
+        return result.success ? [result.data] : [];
+      });
+    }
+  
+    // Parse one level of the outline. Subtopics nested deeper than allowed are
+    // lifted up to subtopic level rather than dropped.
+    private static parseOutlines(rawTopics: unknown[], label: string, isSubtopicLevel = false): TopicOutline[] {
+      const outlines: TopicOutline[] = [];
+  
+      rawTopics.forEach((raw, index) => {
+        const result = extractedTopicSchema.safeParse(raw);
+        if (!result.success) {
+          console.warn(`Discarding invalid ${label} ${index + 1}:`, result.error.errors[0]?.message, raw);
+          return;
+        }
+  
+        const { title, keywords, learningObjectives, weeks, subtopics = [] } = result.data;
+        const children = this.parseOutlines(subtopics, 'subtopic', true);
+        const outline: TopicOutline = {
+          title,
+          keywords: keywords && keywords.length > 0 ? keywords : undefined,
+          learningObjectives: learningObjectives && learningObjectives.length > 0 ? learningObjectives : undefined,
+          weeks,
+          subtopics: isSubtopicLevel ? [] : children,
+        };
+  
+        outlines.push(outline);
+        if (isSubtopicLevel) {
+          outlines.push(...children);
+        }
+      });
+  
+      return outlines;
+    }
+  
+    // Ground each topic in the syllabus text and return the overall confidence
+    private static scoreTopics(topics: ExtractedTopic[], cleanedText: string): number {
+      const groundings = TopicGroundingScorer.scoreTopics(topics, cleanedText);
+  
+      topics.forEach((topic, index) => {
+        const { confidence, source, issues } = groundings[index];
+        topic.confidence = confidence;
+        topic.source = source;
+        topic.confidenceIssues = issues.length > 0 ? issues : undefined;
+      });
+  
+      return TopicGroundingScorer.averageConfidence(groundings);
     }
   
     // Get user-friendly error message
     private static getErrorMessage(error: any): string {
       const message = error.message || 'Unknown error';
       
-      if (message.includes('API key')) {
-        return 'OpenAI API key is invalid or missing. Please check your configuration.';
+      // Typed errors from the AI service: quota, key and session problems no
+      // retry will fix, then rate limits and upstream timeouts
+      if (isFatalRequestError(error)) {
+        if (error.code === DAILY_QUOTA_ERROR_CODE) {
+          return "You've reached today's AI limit. Please try again tomorrow.";
+        }
+        if (error.code === 'invalid_api_key') {
+          return 'AI provider API key is invalid or missing. Please check your configuration.';
+        }
+        if (error.code === 'insufficient_quota') {
+          return 'AI provider quota exceeded. Please check your billing settings.';
+        }
+        return 'The AI service rejected the request. Please sign in again or check your AI settings.';
+      }
+      
+      if (error instanceof LLMRequestError && error.status === 429) {
+        return 'Too many requests. Please wait a moment and try again.';
       }
       
-      if (message.includes('quota') || message.includes('billing')) {
-        return 'OpenAI API quota exceeded. Please check your billing settings.';
+      if (error instanceof RequestTimeoutError || (error instanceof LLMRequestError && error.status === 504)) {
+        return 'The AI service took too long to respond. Please try again.';
       }
       
-      if (message.includes('rate limit')) {
-        return 'Too many requests. Please wait a moment and try again.';
+      if (message.includes('Invalid response format')) {
+        return 'The AI service returned an unreadable response. Please try again.';
       }
       
       if (message.includes('network') || message.includes('fetch')) {
@@ -0,0 +1,207 @@
+// File: src/services/quiz/grading.ts
+import { FillBlankQuestion, QuestionGrade, QuestionResponse, QuizQuestion } from '../../types';
+
+// Fill-in-the-blank answers at least this long may be off by one typo
+const TYPO_TOLERANCE_LENGTH = 6;
+
+// Score (0-1) a short answer needs to count as correct
+export const SHORT_ANSWER_PASSING_SCORE = 0.7;
+// Longest model feedback kept with a grade
+const MAX_FEEDBACK_LENGTH = 500;
+
+const UNANSWERED: QuestionGrade = { score: 0, correct: false };
+
+// Lowercase, without accents, punctuation, extra spaces or a leading article
+export const normalizeAnswerText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.\-\s]/gu, ' ')
+    .replace(/(^|\s)[.\-]+(?!\d)|[.\-]+(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+
+// Edits (insert, delete, substitute or swap two neighbouring letters) to turn a into b
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const matchesBlank = (question: FillBlankQuestion, text: string): boolean => {
+  const answer = normalizeAnswerText(text);
+  if (!answer) return false;
+
+  return question.acceptedAnswers.some(accepted => {
+    const expected = normalizeAnswerText(accepted);
+    if (answer === expected) return true;
+    // "0.50" and ".5" are the same number
+    if (/^-?[\d.]+$/.test(answer) && /^-?[\d.]+$/.test(expected)) {
+      return Number(answer) === Number(expected);
+    }
+    return expected.length >= TYPO_TOLERANCE_LENGTH && editDistance(answer, expected) <= 1;
+  });
+};
+
+// Share of positions that hold the expected value
+const positionalScore = (expected: number[], actual: number[]): number =>
+  expected.length > 0
+    ? expected.filter((value, index) => actual[index] === value).length / expected.length
+    : 0;
+
+// Only full marks count as correct
+const gradeFromScore = (score: number): QuestionGrade => ({ score, correct: score === 1 });
+
+// Deterministic grading for every type but short answer, which needs the
+// model (see AnswerGradingService). Multi-select, ordering and matching give
+// partial credit, but only a fully right answer counts as correct.
+export class QuestionGrader {
+  static needsModelGrading(question: QuizQuestion, response: QuestionResponse | null): boolean {
+    return question.type === 'short_answer' && response?.type === 'short_answer' && response.text.trim() !== '';
+  }
+
+  // Grade an answer; null when it is a short answer for the model to grade
+  static grade(question: QuizQuestion, response: QuestionResponse | null): QuestionGrade | null {
+    if (this.needsModelGrading(question, response)) {
+      return null;
+    }
+    if (!response || response.type !== question.type) {
+      return UNANSWERED;
+    }
+
+    switch (question.type) {
+      case 'multiple_choice':
+        return gradeFromScore(response.type === 'multiple_choice' && response.selected === question.correctAnswer ? 1 : 0);
+
+      case 'true_false':
+        return gradeFromScore(response.type === 'true_false' && response.value === question.correctAnswer ? 1 : 0);
+
+      case 'multi_select': {
+        if (response.type !== 'multi_select') return UNANSWERED;
+        const correct = new Set(question.correctAnswers);
+        const selected = new Set(response.selected);
+        const hits = [...selected].filter(index => correct.has(index)).length;
+        const misses = selected.size - hits;
+        // Each wrong pick cancels a right one, so selecting everything scores nothing
+        const score = correct.size > 0 ? Math.max(0, (hits - misses) / correct.size) : 0;
+        return { score, correct: hits === correct.size && misses === 0 };
+      }
+
+      case 'fill_blank':
+        return gradeFromScore(response.type === 'fill_blank' && matchesBlank(question, response.text) ? 1 : 0);
+
+      case 'ordering':
+        return gradeFromScore(response.type === 'ordering' ? positionalScore(question.correctOrder, response.order) : 0);
+
+      case 'matching':
+        return gradeFromScore(response.type === 'matching' ? positionalScore(question.correctMatches, response.matches) : 0);
+
+      case 'short_answer':
+        return UNANSWERED; // only reached when the answer is blank
+    }
+  }
+
+  // Check a model grade before it is saved: the score is clamped to 0-1 and
+  // "correct" follows from it. Null unless the question is an answered short
+  // answer and the score is a number.
+  static acceptModelGrade(
+    question: QuizQuestion,
+    response: QuestionResponse | null,
+    grade: QuestionGrade | undefined
+  ): QuestionGrade | null {
+    if (!grade || !this.needsModelGrading(question, response) || !Number.isFinite(grade.score)) {
+      return null;
+    }
+
+    const score = Math.min(1, Math.max(0, grade.score));
+    return {
+      score,
+      correct: score >= SHORT_ANSWER_PASSING_SCORE,
+      feedback: typeof grade.feedback === 'string' && grade.feedback
+        ? grade.feedback.slice(0, MAX_FEEDBACK_LENGTH)
+        : undefined,
+    };
+  }
+
+  // Whether the user has given an answer that can be submitted
+  static isAnswered(question: QuizQuestion, response: QuestionResponse | null): boolean {
+    if (!response || response.type !== question.type) return false;
+
+    switch (response.type) {
+      case 'multi_select':
+        return response.selected.length > 0;
+      case 'fill_blank':
+      case 'short_answer':
+        return response.text.trim() !== '';
+      case 'matching':
+        return !response.matches.includes(-1);
+      default:
+        return true;
+    }
+  }
+}
+
+// The answer a response stands for, as text for the results screen
+export const formatResponse = (question: QuizQuestion, response: QuestionResponse | undefined): string | null => {
+  if (!response || response.type !== question.type) return null;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return response.type === 'multiple_choice' ? question.options[response.selected] ?? null : null;
+    case 'true_false':
+      return response.type === 'true_false' ? (response.value ? 'True' : 'False') : null;
+    case 'multi_select':
+      return response.type === 'multi_select'
+        ? response.selected.map(index => question.options[index]).join(', ')
+        : null;
+    case 'fill_blank':
+    case 'short_answer':
+      return response.type === 'fill_blank' || response.type === 'short_answer' ? response.text : null;
+    case 'ordering':
+      return response.type === 'ordering'
+        ? response.order.map(index => question.items[index]).join(' → ')
+        : null;
+    case 'matching':
+      return response.type === 'matching'
+        ? question.prompts
+          .map((prompt, index) => `${prompt} → ${question.choices[response.matches[index]] ?? '?'}`)
+          .join('\n')
+        : null;
+  }
+};
+
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[question.correctAnswer];
+    case 'true_false':
+      return question.correctAnswer ? 'True' : 'False';
+    case 'multi_select':
+      return question.correctAnswers.map(index => question.options[index]).join(', ');
+    case 'fill_blank':
+      return question.acceptedAnswers.join(' / ');
+    case 'ordering':
+      return question.correctOrder.map(index => question.items[index]).join(' → ');
+    case 'matching':
+      return question.prompts
+        .map((prompt, index) => `${prompt} → ${question.choices[question.correctMatches[index]]}`)
+        .join('\n');
+    case 'short_answer':
+      return question.sampleAnswer;
+  }
+};
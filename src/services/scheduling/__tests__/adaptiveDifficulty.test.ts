@@ -0,0 +1,49 @@
+import { AdaptiveDifficulty } from '../adaptiveDifficulty';
+
+const now = new Date('2026-03-02T09:00:00.000Z');
+
+describe('AdaptiveDifficulty.recordAnswer', () => {
+  it('moves ability toward the score by the prediction gap', () => {
+    const initial = AdaptiveDifficulty.createInitialMastery('topic-1', now);
+
+    // Even odds on a medium question: a right answer adds half a step
+    const right = AdaptiveDifficulty.recordAnswer(initial, 'medium', 1, now);
+    expect(right.ability).toBeCloseTo(0.5);
+    expect(right.answerCount).toBe(1);
+
+    const wrong = AdaptiveDifficulty.recordAnswer(initial, 'medium', 0, now);
+    expect(wrong.ability).toBeCloseTo(-0.5);
+  });
+
+  it('keeps ability within ±4 however many answers agree', () => {
+    let strong = AdaptiveDifficulty.createInitialMastery('topic-1', now);
+    let weak = AdaptiveDifficulty.createInitialMastery('topic-2', now);
+    for (let answer = 0; answer < 500; answer++) {
+      strong = AdaptiveDifficulty.recordAnswer(strong, 'easy', 1, now);
+      weak = AdaptiveDifficulty.recordAnswer(weak, 'hard', 0, now);
+    }
+    expect(strong.ability).toBeLessThanOrEqual(4);
+    expect(strong.ability).toBeGreaterThan(3);
+    expect(weak.ability).toBeGreaterThanOrEqual(-4);
+    expect(weak.ability).toBeLessThan(-3);
+  });
+
+  it('still moves the estimate after many answers', () => {
+    let mastery = AdaptiveDifficulty.createInitialMastery('topic-1', now);
+    for (let answer = 0; answer < 100; answer++) {
+      mastery = AdaptiveDifficulty.recordAnswer(mastery, 'medium', answer % 2, now);
+    }
+    const expected = AdaptiveDifficulty.expectedSuccess(mastery, 'medium');
+    const updated = AdaptiveDifficulty.recordAnswer(mastery, 'medium', 1, now);
+    // The step bottoms out at 0.3
+    expect(updated.ability - mastery.ability).toBeCloseTo(0.3 * (1 - expected));
+  });
+});
+
+describe('AdaptiveDifficulty.targetDifficulty', () => {
+  it('starts a new topic on easy questions and raises them with ability', () => {
+    expect(AdaptiveDifficulty.targetDifficulty(undefined)).toBe('easy');
+    expect(AdaptiveDifficulty.targetDifficulty({ topicId: 't', ability: 1.5, answerCount: 5, updatedAt: now.toISOString() })).toBe('medium');
+    expect(AdaptiveDifficulty.targetDifficulty({ topicId: 't', ability: 3, answerCount: 9, updatedAt: now.toISOString() })).toBe('hard');
+  });
+});
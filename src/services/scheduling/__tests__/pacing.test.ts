@@ -0,0 +1,99 @@
+import { PacingEngine } from '../pacing';
+import { ReviewState, Topic } from '../../../types';
+
+const makeTopics = (count: number): Topic[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `topic-${index + 1}`,
+    courseId: 'course-1',
+    title: `Topic ${index + 1}`,
+    content: '',
+    keywords: [],
+    orderIndex: index + 1,
+    parentId: null,
+    learningObjectives: [],
+    materialId: null,
+    createdAt: '2026-01-05T09:00:00.000Z',
+  }));
+
+const reviewed = (topicId: string, overrides: Partial<ReviewState> = {}): ReviewState => ({
+  itemId: topicId,
+  easeFactor: 2.5,
+  interval: 1,
+  repetitions: 1,
+  lapses: 0,
+  dueDate: '2026-02-01T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('PacingEngine.computePacing', () => {
+  it('asks for topics when the course has none', () => {
+    const plan = PacingEngine.computePacing({
+      course: { createdAt: '2026-01-05T09:00:00.000Z', endDate: '2026-05-01', schedule: null },
+      topics: [],
+      reviewStates: [],
+      now: new Date(2026, 1, 1, 12),
+    });
+
+    expect(plan.status).toBe('no_topics');
+    expect(plan.newTopicsPerWeek).toBe(0);
+    expect(plan.reviewsPerWeek).toBe(0);
+    expect(plan.recommendation).toBe('Add course topics to get a study pace.');
+  });
+
+  it('paces from the creation date when the schedule is empty', () => {
+    const plan = PacingEngine.computePacing({
+      course: {
+        createdAt: '2026-01-01T09:00:00.000Z',
+        endDate: '2026-01-31',
+        schedule: { startDate: null, topicWeeks: [], assessments: [] },
+      },
+      topics: makeTopics(10),
+      reviewStates: [],
+      now: new Date(2026, 0, 16, 12),
+    });
+
+    // Halfway through the course with nothing started
+    expect(plan.topicsExpected).toBe(5);
+    expect(plan.status).toBe('behind');
+    expect(plan.isBehind).toBe(true);
+    expect(plan.daysRemaining).toBe(16);
+  });
+
+  it('reports a course whose schedule is past as ended', () => {
+    const topics = makeTopics(4);
+    const plan = PacingEngine.computePacing({
+      course: {
+        createdAt: '2025-09-01T09:00:00.000Z',
+        endDate: '2025-12-19',
+        schedule: { startDate: '2025-09-08', topicWeeks: [], assessments: [] },
+      },
+      topics,
+      reviewStates: [reviewed(topics[0].id, { lapses: 1 })],
+      examDates: ['2025-12-15'],
+      now: new Date(2026, 1, 1, 12),
+    });
+
+    expect(plan.status).toBe('ended');
+    expect(plan.isBehind).toBe(false);
+    expect(plan.daysRemaining).toBe(0);
+    expect(plan.topicsExpected).toBe(4);
+    expect(plan.nextExamDate).toBeNull();
+    expect(plan.reviewLookaheadDays).toBe(0);
+  });
+
+  it('speeds up reviews in the days before an exam', () => {
+    const topics = makeTopics(4);
+    const plan = PacingEngine.computePacing({
+      course: { createdAt: '2026-01-01T09:00:00.000Z', endDate: '2026-05-01', schedule: null },
+      topics,
+      reviewStates: topics.map(topic => reviewed(topic.id)),
+      examDates: ['2026-02-03'],
+      now: new Date(2026, 1, 1, 12),
+    });
+
+    expect(plan.status).toBe('ahead');
+    expect(plan.daysToNextExam).toBe(3);
+    expect(plan.reviewsPerWeek).toBe(12);
+    expect(plan.reviewLookaheadDays).toBe(3);
+  });
+});
@@ -0,0 +1,60 @@
+import { SpacedRepetitionScheduler } from '../spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-02T09:00:00.000Z');
+
+describe('SpacedRepetitionScheduler.review', () => {
+  it('follows the SM-2 intervals of 1, 6, then interval times ease', () => {
+    let state = SpacedRepetitionScheduler.createInitialState('topic-1', now);
+
+    state = SpacedRepetitionScheduler.review(state, 4, now);
+    expect(state.interval).toBe(1);
+    expect(state.repetitions).toBe(1);
+
+    state = SpacedRepetitionScheduler.review(state, 4, now);
+    expect(state.interval).toBe(6);
+
+    state = SpacedRepetitionScheduler.review(state, 4, now);
+    expect(state.interval).toBe(15); // round(6 * 2.5)
+    expect(state.repetitions).toBe(3);
+    expect(state.dueDate).toBe(new Date(now.getTime() + 15 * DAY_MS).toISOString());
+    expect(state.lastReviewedAt).toBe(now.toISOString());
+  });
+
+  it('adjusts ease by recall quality', () => {
+    const initial = SpacedRepetitionScheduler.createInitialState('topic-1', now);
+
+    expect(SpacedRepetitionScheduler.review(initial, 5, now).easeFactor).toBe(2.6);
+    expect(SpacedRepetitionScheduler.review(initial, 4, now).easeFactor).toBe(2.5);
+    expect(SpacedRepetitionScheduler.review(initial, 3, now).easeFactor).toBe(2.36);
+  });
+
+  it('restarts a forgotten item and counts the lapse', () => {
+    let state = SpacedRepetitionScheduler.createInitialState('topic-1', now);
+    state = SpacedRepetitionScheduler.review(state, 5, now);
+    state = SpacedRepetitionScheduler.review(state, 5, now);
+
+    state = SpacedRepetitionScheduler.review(state, 1, now);
+    expect(state.repetitions).toBe(0);
+    expect(state.interval).toBe(1);
+    expect(state.lapses).toBe(1);
+  });
+
+  it('never lets ease drop below 1.3', () => {
+    let state = SpacedRepetitionScheduler.createInitialState('topic-1', now);
+    for (let review = 0; review < 10; review++) {
+      state = SpacedRepetitionScheduler.review(state, 0, now);
+    }
+    expect(state.easeFactor).toBe(1.3);
+  });
+});
+
+describe('SpacedRepetitionScheduler.gradeAnswer', () => {
+  it('grades by correctness, then by response time', () => {
+    expect(SpacedRepetitionScheduler.gradeAnswer(false, 5)).toBe(1);
+    expect(SpacedRepetitionScheduler.gradeAnswer(true)).toBe(4);
+    expect(SpacedRepetitionScheduler.gradeAnswer(true, 10)).toBe(5);
+    expect(SpacedRepetitionScheduler.gradeAnswer(true, 30)).toBe(4);
+    expect(SpacedRepetitionScheduler.gradeAnswer(true, 90)).toBe(3);
+  });
+});
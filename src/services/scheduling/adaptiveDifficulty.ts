@@ -0,0 +1,94 @@
+import { QuizQuestion, Topic, TopicMastery } from '../../types';
+
+type Difficulty = QuizQuestion['difficulty'];
+
+// Success rate questions are aimed at: hard enough to stretch, easy enough
+// that most answers land
+const TARGET_SUCCESS = 0.8;
+
+// Question difficulty on the same logit scale as ability
+const DIFFICULTY_LEVELS: { [difficulty in Difficulty]: number } = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+// How far one answer moves the estimate: a lot at first, then less as
+// answers accumulate, but never so little that the estimate stops tracking
+const INITIAL_STEP = 1;
+const MIN_STEP = 0.3;
+const MAX_ABILITY = 4;
+
+const sigmoid = (value: number): number => 1 / (1 + Math.exp(-value));
+
+// Per-topic mastery as an Elo-style ability estimate: each graded answer
+// moves the topic's ability by the gap between the score and the success
+// the estimate predicted. Every method takes "now" explicitly so results are
+// deterministic and nothing here touches storage.
+export class AdaptiveDifficulty {
+  // A topic with no answers yet; its first questions come out easy
+  static createInitialMastery(topicId: string, now: Date): TopicMastery {
+    return {
+      topicId,
+      ability: 0,
+      answerCount: 0,
+      updatedAt: now.toISOString(),
+    };
+  }
+
+  // Predicted chance of answering a question of this difficulty right
+  static expectedSuccess(mastery: TopicMastery, difficulty: Difficulty): number {
+    return sigmoid(mastery.ability - DIFFICULTY_LEVELS[difficulty]);
+  }
+
+  // Update the estimate from one graded answer; `score` is 0-1, so partial
+  // credit counts partially
+  static recordAnswer(mastery: TopicMastery, difficulty: Difficulty, score: number, now: Date): TopicMastery {
+    const step = Math.max(MIN_STEP, INITIAL_STEP / Math.sqrt(1 + mastery.answerCount));
+    const ability = mastery.ability + step * (score - this.expectedSuccess(mastery, difficulty));
+    return {
+      ...mastery,
+      ability: Math.min(MAX_ABILITY, Math.max(-MAX_ABILITY, ability)),
+      answerCount: mastery.answerCount + 1,
+      updatedAt: now.toISOString(),
+    };
+  }
+
+  // The difficulty whose predicted success is closest to the target
+  static targetDifficulty(mastery: TopicMastery | undefined): Difficulty {
+    const current = mastery ?? this.createInitialMastery('', new Date(0));
+    return (Object.keys(DIFFICULTY_LEVELS) as Difficulty[]).reduce((best, difficulty) =>
+      Math.abs(this.expectedSuccess(current, difficulty) - TARGET_SUCCESS)
+        < Math.abs(this.expectedSuccess(current, best) - TARGET_SUCCESS)
+        ? difficulty
+        : best
+    );
+  }
+
+  // Target difficulty for each topic, in topic order
+  static selectDifficulties(topics: Topic[], masteries: TopicMastery[]): Difficulty[] {
+    const byTopic = new Map(masteries.map(mastery => [mastery.topicId, mastery]));
+    return topics.map(topic => this.targetDifficulty(byTopic.get(topic.id)));
+  }
+
+  // Update per-topic estimates from an answered quiz, one answer at a time in
+  // question order. Returns only the estimates that changed.
+  static applyQuizResults(masteries: TopicMastery[], questions: QuizQuestion[], now: Date): TopicMastery[] {
+    const byTopic = new Map(masteries.map(mastery => [mastery.topicId, mastery]));
+    const updated = new Map<string, TopicMastery>();
+
+    questions.forEach(question => {
+      // Ungraded answers (a short answer the model couldn't grade) don't count
+      if (!question.topicId || !question.grade) {
+        return;
+      }
+
+      const current = updated.get(question.topicId)
+        ?? byTopic.get(question.topicId)
+        ?? this.createInitialMastery(question.topicId, now);
+      updated.set(question.topicId, this.recordAnswer(current, question.difficulty, question.grade.score, now));
+    });
+
+    return [...updated.values()];
+  }
+}
@@ -0,0 +1,89 @@
+import { AssessmentType, Course, Topic } from '../../types';
+
+export interface DatedAssessment {
+  title: string;
+  type: AssessmentType;
+  date: string; // YYYY-MM-DD
+}
+
+// Assessment types that pull reviews forward in the pacing engine
+const EXAM_TYPES: AssessmentType[] = ['exam', 'midterm', 'final'];
+
+// Pure date calculations over a course's extracted schedule: turns course
+// weeks into calendar dates and decides which topics have been taught yet.
+export class CourseCalendar {
+  // First day of week 1; courses without a stated start date count from creation
+  static getStartDate(course: Pick<Course, 'createdAt' | 'schedule'>): Date {
+    return this.parseDay(course.schedule?.startDate || course.createdAt);
+  }
+
+  // First day of the given 1-based course week
+  static getWeekStart(course: Pick<Course, 'createdAt' | 'schedule'>, week: number): Date {
+    const start = this.getStartDate(course);
+    start.setDate(start.getDate() + (week - 1) * 7);
+    return start;
+  }
+
+  // Assessments with a calendar date, using the week when no date was given,
+  // in date order
+  static getDatedAssessments(course: Pick<Course, 'createdAt' | 'schedule'>): DatedAssessment[] {
+    return (course.schedule?.assessments || [])
+      .map(assessment => {
+        const date = assessment.date
+          ?? (assessment.week ? this.toDateString(this.getWeekStart(course, assessment.week)) : null);
+        return date ? { title: assessment.title, type: assessment.type, date } : null;
+      })
+      .filter((assessment): assessment is DatedAssessment => assessment !== null)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Exam dates for PacingEngine (midterms, finals and other exams)
+  static getExamDates(course: Pick<Course, 'createdAt' | 'schedule'>): string[] {
+    return this.getDatedAssessments(course)
+      .filter(assessment => EXAM_TYPES.includes(assessment.type))
+      .map(assessment => assessment.date);
+  }
+
+  // Date a topic starts being taught, or null if the syllabus didn't schedule
+  // it. Subtopics without weeks of their own follow their unit.
+  static getTopicStart(
+    course: Pick<Course, 'createdAt' | 'schedule'>,
+    topic: Pick<Topic, 'id' | 'parentId'>
+  ): Date | null {
+    const topicWeeks = course.schedule?.topicWeeks || [];
+    const weeks = topicWeeks.find(entry => entry.topicId === topic.id)
+      ?? (topic.parentId ? topicWeeks.find(entry => entry.topicId === topic.parentId) : undefined);
+    return weeks ? this.getWeekStart(course, weeks.startWeek) : null;
+  }
+
+  // Topics that have been taught by `now`. Unscheduled topics are always
+  // relevant; if nothing qualifies (e.g. before week 1) every topic is.
+  static getRelevantTopics<T extends Pick<Topic, 'id' | 'parentId'>>(
+    course: Pick<Course, 'createdAt' | 'schedule'>,
+    topics: T[],
+    now: Date
+  ): T[] {
+    const relevant = topics.filter(topic => {
+      const start = this.getTopicStart(course, topic);
+      return !start || start.getTime() <= now.getTime();
+    });
+    return relevant.length > 0 ? relevant : topics;
+  }
+
+  // Local day of a date: YYYY-MM-DD is read as that calendar day, and a full
+  // timestamp (Course.createdAt, in UTC) as the day it falls on locally
+  private static parseDay(date: string): Date {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+    const parsed = match
+      ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      : new Date(date);
+    parsed.setHours(0, 0, 0, 0);
+    return parsed;
+  }
+
+  private static toDateString(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
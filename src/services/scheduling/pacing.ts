@@ -0,0 +1,180 @@
+import { Course, ReviewState, Topic } from '../../types';
+import { CourseCalendar } from './courseCalendar';
+
+export type PacingStatus = 'no_topics' | 'ahead' | 'on_track' | 'behind' | 'ended';
+
+export interface PacingInput {
+  course: Pick<Course, 'createdAt' | 'endDate' | 'schedule'>;
+  topics: Topic[];
+  reviewStates: ReviewState[];
+  examDates?: string[]; // midterms, finals etc. (YYYY-MM-DD or ISO)
+  now: Date;
+}
+
+export interface PacingPlan {
+  status: PacingStatus;
+  isBehind: boolean;
+  daysRemaining: number;
+  topicsTotal: number;
+  topicsStarted: number; // topics reviewed at least once
+  topicsExpected: number; // topics a steady pace would have started by now
+  weakTopics: number; // forgotten before or low ease
+  newTopicsPerWeek: number;
+  reviewsPerWeek: number;
+  nextExamDate: string | null;
+  daysToNextExam: number | null;
+  // Reviews due within this many days count as due now (grows near exams)
+  reviewLookaheadDays: number;
+  recommendation: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A student is "behind" once they trail the steady pace by more than this
+// share of the course (and by at least one whole topic)
+const BEHIND_TOLERANCE = 0.1;
+const WEAK_EASE_FACTOR = 2.0;
+
+// Review multiplier by days left before the next exam, closest first
+const EXAM_ACCELERATION: { withinDays: number; multiplier: number; lookaheadDays: number }[] = [
+  { withinDays: 3, multiplier: 3, lookaheadDays: 3 },
+  { withinDays: 7, multiplier: 2, lookaheadDays: 2 },
+  { withinDays: 14, multiplier: 1.5, lookaheadDays: 1 },
+];
+
+// Pure pacing calculations: spreads a course's topics over the time from the
+// course start (the syllabus start date, else creation) to Course.endDate and
+// speeds reviews up ahead of exams.
+export class PacingEngine {
+  static computePacing(input: PacingInput): PacingPlan {
+    const { course, topics, reviewStates, now } = input;
+    const start = CourseCalendar.getStartDate(course);
+    const end = this.endOfDay(course.endDate);
+
+    const daysRemaining = Math.max(0, Math.ceil((end.getTime() - now.getTime()) / DAY_MS));
+    const totalDays = Math.max(1, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+    const elapsedDays = Math.min(totalDays, Math.max(0, (now.getTime() - start.getTime()) / DAY_MS));
+
+    const topicIds = new Set(topics.map(topic => topic.id));
+    const courseStates = reviewStates.filter(state => topicIds.has(state.itemId));
+    const topicsTotal = topics.length;
+    const topicsStarted = courseStates.length;
+    const topicsRemaining = topicsTotal - topicsStarted;
+    const topicsExpected = Math.min(topicsTotal, Math.floor(topicsTotal * (elapsedDays / totalDays)));
+    const weakTopics = courseStates.filter(
+      state => state.lapses > 0 || state.easeFactor < WEAK_EASE_FACTOR
+    ).length;
+
+    const nextExam = this.getNextExam(input.examDates || [], now, end);
+    const daysToNextExam = nextExam
+      ? Math.max(0, Math.ceil((nextExam.getTime() - now.getTime()) / DAY_MS))
+      : null;
+    const acceleration = daysToNextExam !== null
+      ? EXAM_ACCELERATION.find(step => daysToNextExam <= step.withinDays)
+      : undefined;
+
+    // New material has to be finished before the next exam if there is one
+    const daysForNewTopics = Math.max(1, daysToNextExam ?? daysRemaining);
+    const newTopicsPerWeek = topicsRemaining > 0
+      ? Math.ceil((topicsRemaining / daysForNewTopics) * 7)
+      : 0;
+
+    // Baseline: each started topic reviewed about once a week, weak ones twice
+    const baseReviewsPerWeek = topicsStarted + weakTopics;
+    const reviewsPerWeek = Math.ceil(baseReviewsPerWeek * (acceleration?.multiplier ?? 1));
+
+    const behindBy = topicsExpected - topicsStarted;
+    const isBehind = daysRemaining > 0
+      && behindBy >= 1
+      && behindBy > topicsTotal * BEHIND_TOLERANCE;
+
+    let status: PacingStatus;
+    if (topicsTotal === 0) {
+      status = 'no_topics';
+    } else if (daysRemaining === 0) {
+      status = 'ended';
+    } else if (isBehind) {
+      status = 'behind';
+    } else if (topicsStarted > topicsExpected) {
+      status = 'ahead';
+    } else {
+      status = 'on_track';
+    }
+
+    const plan: PacingPlan = {
+      status,
+      isBehind,
+      daysRemaining,
+      topicsTotal,
+      topicsStarted,
+      topicsExpected,
+      weakTopics,
+      newTopicsPerWeek,
+      reviewsPerWeek,
+      nextExamDate: nextExam ? nextExam.toISOString() : null,
+      daysToNextExam,
+      reviewLookaheadDays: acceleration?.lookaheadDays ?? 0,
+      recommendation: '',
+    };
+    plan.recommendation = this.buildRecommendation(plan, behindBy);
+
+    return plan;
+  }
+
+  // Short, actionable advice for the UI
+  private static buildRecommendation(plan: PacingPlan, behindBy: number): string {
+    switch (plan.status) {
+      case 'no_topics':
+        return 'Add course topics to get a study pace.';
+      case 'ended':
+        return 'This course has ended. Keep reviewing weak topics if you have exams left.';
+      default:
+        break;
+    }
+
+    const parts: string[] = [];
+
+    if (plan.status === 'behind') {
+      parts.push(`You're ${behindBy} topic${behindBy === 1 ? '' : 's'} behind.`);
+    } else if (plan.status === 'ahead') {
+      parts.push("You're ahead of schedule.");
+    } else {
+      parts.push("You're on track.");
+    }
+
+    if (plan.newTopicsPerWeek > 0) {
+      parts.push(`start ${plan.newTopicsPerWeek} new topic${plan.newTopicsPerWeek === 1 ? '' : 's'} per week`);
+    }
+
+    if (plan.daysToNextExam !== null && plan.reviewLookaheadDays > 0) {
+      parts.push(`exam in ${plan.daysToNextExam} day${plan.daysToNextExam === 1 ? '' : 's'}: review ${plan.reviewsPerWeek} topics per week`);
+    } else if (plan.weakTopics > 0) {
+      parts.push(`revisit ${plan.weakTopics} weak topic${plan.weakTopics === 1 ? '' : 's'}`);
+    }
+
+    // Join the action items into one sentence after the status
+    const [status, ...actions] = parts;
+    if (actions.length === 0) {
+      return status;
+    }
+    const advice = actions.join('; ');
+    return `${status} ${advice.charAt(0).toUpperCase()}${advice.slice(1)}.`;
+  }
+
+  // Closest exam that is still ahead and inside the course
+  private static getNextExam(examDates: string[], now: Date, end: Date): Date | null {
+    const upcoming = examDates
+      .map(date => this.endOfDay(date))
+      .filter(date => !isNaN(date.getTime()) && date.getTime() >= now.getTime() && date.getTime() <= end.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+    return upcoming[0] || null;
+  }
+
+  // Dates are stored as YYYY-MM-DD; count the whole day
+  private static endOfDay(date: string): Date {
+    const [year, month, day] = date.split('T')[0].split('-').map(Number);
+    const end = year && month && day ? new Date(year, month - 1, day) : new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  }
+}
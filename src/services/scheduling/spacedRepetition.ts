@@ -0,0 +1,152 @@
+import { QuizQuestion, ReviewState, Topic } from '../../types';
+
+// SM-2 recall quality: 0 (blackout) to 5 (perfect recall)
+export type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+
+// Answers faster/slower than these count as confident/hesitant recall
+const FAST_ANSWER_SECONDS = 15;
+const SLOW_ANSWER_SECONDS = 60;
+
+// Pure SM-2 scheduler. Every method takes "now" explicitly so results are
+// deterministic and nothing here touches storage.
+export class SpacedRepetitionScheduler {
+  // Fresh state for an item that has never been reviewed (due immediately)
+  static createInitialState(itemId: string, now: Date): ReviewState {
+    return {
+      itemId,
+      easeFactor: INITIAL_EASE,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueDate: now.toISOString(),
+    };
+  }
+
+  // Map a quiz answer to SM-2 quality using correctness and response time
+  static gradeAnswer(isCorrect: boolean, timeSpent?: number): RecallQuality {
+    if (!isCorrect) {
+      return 1;
+    }
+    if (timeSpent === undefined) {
+      return 4;
+    }
+    if (timeSpent <= FAST_ANSWER_SECONDS) {
+      return 5;
+    }
+    return timeSpent >= SLOW_ANSWER_SECONDS ? 3 : 4;
+  }
+
+  // Apply one review to a state using the SM-2 update rules
+  static review(state: ReviewState, quality: RecallQuality, now: Date): ReviewState {
+    let { repetitions, interval, lapses } = state;
+
+    if (quality >= PASSING_QUALITY) {
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round(interval * state.easeFactor);
+      }
+      repetitions += 1;
+    } else {
+      // Failed recall: relearn from the start
+      repetitions = 0;
+      interval = 1;
+      lapses += 1;
+    }
+
+    const easeDelta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+    const easeFactor = Math.max(MIN_EASE, state.easeFactor + easeDelta);
+
+    return {
+      ...state,
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      interval,
+      repetitions,
+      lapses,
+      dueDate: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  // Update per-topic states from an answered quiz. Each topic gets one review
+  // graded by its weakest answer, so one lucky guess can't hide a miss.
+  static applyQuizResults(
+    states: ReviewState[],
+    questions: QuizQuestion[],
+    now: Date
+  ): ReviewState[] {
+    const qualityByTopic = new Map<string, RecallQuality>();
+
+    questions.forEach(question => {
+      // Ungraded answers (a short answer the model couldn't grade) don't count
+      if (!question.topicId || !question.grade) {
+        return;
+      }
+
+      const quality = this.gradeAnswer(question.grade.correct, question.timeSpent);
+      const current = qualityByTopic.get(question.topicId);
+      if (current === undefined || quality < current) {
+        qualityByTopic.set(question.topicId, quality);
+      }
+    });
+
+    const statesById = new Map(states.map(state => [state.itemId, state]));
+    const updated: ReviewState[] = [];
+
+    qualityByTopic.forEach((quality, topicId) => {
+      const state = statesById.get(topicId) || this.createInitialState(topicId, now);
+      updated.push(this.review(state, quality, now));
+    });
+
+    return updated;
+  }
+
+  // Pick the topics a session at `sessionDate` should cover: overdue topics
+  // first (most overdue, then lowest ease), then never-reviewed topics in
+  // course order.
+  static selectTopicsForSession(
+    topics: Topic[],
+    states: ReviewState[],
+    sessionDate: Date,
+    maxTopics: number
+  ): Topic[] {
+    const statesById = new Map(states.map(state => [state.itemId, state]));
+    const sessionTime = sessionDate.getTime();
+
+    const due = topics
+      .filter(topic => {
+        const state = statesById.get(topic.id);
+        return state && new Date(state.dueDate).getTime() <= sessionTime;
+      })
+      .sort((a, b) => {
+        const stateA = statesById.get(a.id)!;
+        const stateB = statesById.get(b.id)!;
+        const byDueDate = new Date(stateA.dueDate).getTime() - new Date(stateB.dueDate).getTime();
+        if (byDueDate !== 0) return byDueDate;
+        const byEase = stateA.easeFactor - stateB.easeFactor;
+        return byEase !== 0 ? byEase : a.orderIndex - b.orderIndex;
+      });
+
+    const unseen = topics
+      .filter(topic => !statesById.has(topic.id))
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+
+    return [...due, ...unseen].slice(0, maxTopics);
+  }
+
+  // Earliest due date among the given states, or null if there are none
+  static getNextDueDate(states: ReviewState[]): Date | null {
+    if (states.length === 0) {
+      return null;
+    }
+    const earliest = Math.min(...states.map(state => new Date(state.dueDate).getTime()));
+    return new Date(earliest);
+  }
+}
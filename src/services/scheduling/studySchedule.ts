@@ -0,0 +1,98 @@
+import { StudySchedule } from '../../types';
+
+export type SchedulePreferences = Pick<StudySchedule, 'studyDays' | 'preferredTime' | 'quizFrequency'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety cap so a far-future end date can't produce an unbounded list
+const MAX_SLOTS = 366;
+
+export class StudyScheduleGenerator {
+  // Lay out quiz slots (ISO strings for Quiz.scheduledFor) from `from` up to the
+  // end of the course's last day, honouring study days, time and frequency.
+  static generateSlots(
+    preferences: SchedulePreferences,
+    endDate: string,
+    from: Date
+  ): string[] {
+    const [hours, minutes] = preferences.preferredTime.split(':').map(Number);
+    const end = this.endOfDay(endDate);
+    const slots: Date[] = [];
+
+    const day = new Date(from);
+    day.setHours(0, 0, 0, 0);
+
+    while (day.getTime() <= end.getTime() && slots.length < MAX_SLOTS) {
+      if (preferences.studyDays.includes(day.getDay())) {
+        const slot = new Date(day);
+        slot.setHours(hours, minutes, 0, 0);
+
+        if (slot.getTime() >= from.getTime() && slot.getTime() <= end.getTime()
+          && this.fitsFrequency(slot, slots[slots.length - 1], preferences.quizFrequency)) {
+          slots.push(slot);
+        }
+      }
+      day.setDate(day.getDate() + 1);
+    }
+
+    return slots.map(slot => slot.toISOString());
+  }
+
+  // Next slot at or after `from` that isn't in `taken` (slots already holding
+  // a quiz), or null once the course has ended
+  static getNextSlot(
+    preferences: SchedulePreferences,
+    endDate: string,
+    from: Date,
+    taken: string[] = []
+  ): string | null {
+    const takenTimes = new Set(taken.map(slot => new Date(slot).getTime()));
+    const slots = this.generateSlots(preferences, endDate, from);
+    return slots.find(slot => !takenTimes.has(new Date(slot).getTime())) ?? null;
+  }
+
+  // Whether a candidate slot respects the frequency relative to the previous slot
+  private static fitsFrequency(
+    candidate: Date,
+    previous: Date | undefined,
+    frequency: SchedulePreferences['quizFrequency']
+  ): boolean {
+    if (!previous) {
+      return true;
+    }
+
+    switch (frequency) {
+      case 'every_other_day':
+        return this.daysBetween(previous, candidate) >= 2;
+      case 'weekly':
+        // One slot per Monday-to-Sunday week
+        return this.startOfWeek(candidate).getTime() !== this.startOfWeek(previous).getTime();
+      default:
+        return true;
+    }
+  }
+
+  private static daysBetween(a: Date, b: Date): number {
+    const dayA = new Date(a);
+    const dayB = new Date(b);
+    dayA.setHours(0, 0, 0, 0);
+    dayB.setHours(0, 0, 0, 0);
+    return Math.round((dayB.getTime() - dayA.getTime()) / DAY_MS);
+  }
+
+  private static startOfWeek(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    const offset = (start.getDay() + 6) % 7; // Monday = 0
+    start.setDate(start.getDate() - offset);
+    return start;
+  }
+
+  // Course end dates are stored as YYYY-MM-DD; include the whole final day
+  private static endOfDay(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const end = year && month && day ? new Date(year, month - 1, day) : new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  }
+}
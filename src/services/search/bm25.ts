@@ -0,0 +1,97 @@
+// File: src/services/search/bm25.ts
+
+// Okapi BM25 ranking over a small in-memory set of documents, so course
+// material can be searched on the device without an outside service.
+
+export interface SearchDocument {
+  id: string;
+  text: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  id: string;
+  length: number;
+  termCounts: Map<string, number>;
+}
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with',
+]);
+
+// Lowercase significant words with a light suffix strip, so "Eigenvalues"
+// matches "eigenvalue" and "sorting" matches "sort"
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(word => {
+      if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+      if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    });
+
+export class Bm25Index {
+  private readonly documents: IndexedDocument[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: SearchDocument[]) {
+    this.documents = documents.map(document => {
+      const terms = tokenize(document.text);
+      const termCounts = new Map<string, number>();
+      terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+      termCounts.forEach((_, term) => {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      });
+      return { id: document.id, length: terms.length, termCounts };
+    });
+
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  // Documents matching at least one query term, best first
+  search(query: string, limit = 10): SearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.documents.length === 0) return [];
+
+    const hits: SearchHit[] = [];
+    this.documents.forEach(document => {
+      let score = 0;
+      terms.forEach(term => {
+        const frequency = document.termCounts.get(term);
+        if (!frequency) return;
+        const lengthRatio = this.averageLength > 0 ? document.length / this.averageLength : 1;
+        score += this.idf(term) * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      });
+      if (score > 0) {
+        hits.push({ id: document.id, score });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Inverse document frequency, kept positive for terms in most documents
+  private idf(term: string): number {
+    const frequency = this.documentFrequency.get(term) || 0;
+    return Math.log(1 + (this.documents.length - frequency + 0.5) / (frequency + 0.5));
+  }
+}
@@ -0,0 +1,140 @@
+// File: src/services/search/courseSearch.ts
+import { Course, CoursePassage, Topic } from '../../types';
+import { Bm25Index, tokenize } from './bm25';
+
+export interface SearchCorpus {
+  courses: Course[];
+  topics: Topic[];
+  passages: CoursePassage[];
+}
+
+export interface CourseSearchResult {
+  key: string; // unique per result
+  courseId: string;
+  topicId: string | null; // topic to open; null when no topic covers the match
+  title: string; // topic title, or the passage's heading
+  location: string; // course and material the match is in
+  snippet: string; // matching text around the first query word
+  score: number;
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+// Text a topic is found by: the title counts double, then keywords,
+// objectives and the user's notes
+const topicText = (topic: Topic): string =>
+  [topic.title, topic.title, ...(topic.keywords || []), ...(topic.learningObjectives || []), topic.content].join('\n');
+
+// Keyword search across every course's topics and uploaded material. Passage
+// matches are attributed to the topic of their course that best fits them, so
+// each result can open that topic; a topic appears once, under its best match.
+export class CourseSearchIndex {
+  private readonly index: Bm25Index;
+  private readonly courses: Map<string, Course>;
+  private readonly topics: Map<string, Topic>;
+  private readonly passages: Map<string, CoursePassage>;
+  private readonly topicIndexes = new Map<string, Bm25Index>(); // per course, built on first use
+
+  constructor(corpus: SearchCorpus) {
+    this.courses = new Map(corpus.courses.map(course => [course.id, course]));
+    this.topics = new Map(corpus.topics.filter(topic => this.courses.has(topic.courseId)).map(topic => [topic.id, topic]));
+    this.passages = new Map(corpus.passages.filter(passage => this.courses.has(passage.courseId)).map(passage => [passage.id, passage]));
+
+    this.index = new Bm25Index([
+      ...[...this.topics.values()].map(topic => ({ id: `topic:${topic.id}`, text: topicText(topic) })),
+      ...[...this.passages.values()].map(passage => ({
+        id: `passage:${passage.id}`,
+        text: `${passage.heading || ''}\n${passage.content}`,
+      })),
+    ]);
+  }
+
+  get isEmpty(): boolean {
+    return this.index.size === 0;
+  }
+
+  search(query: string, limit = 20): CourseSearchResult[] {
+    const results: CourseSearchResult[] = [];
+    const seenTopics = new Set<string>();
+
+    for (const hit of this.index.search(query, limit * 3)) {
+      const [kind, id] = hit.id.split(':');
+      const result = kind === 'topic'
+        ? this.topicResult(this.topics.get(id)!, query, hit.score)
+        : this.passageResult(this.passages.get(id)!, query, hit.score);
+
+      if (result.topicId) {
+        if (seenTopics.has(result.topicId)) continue;
+        seenTopics.add(result.topicId);
+      }
+      results.push(result);
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  private topicResult(topic: Topic, query: string, score: number): CourseSearchResult {
+    const details = [...(topic.keywords || []), ...(topic.learningObjectives || []), topic.content]
+      .filter(Boolean)
+      .join(' • ');
+    return {
+      key: `topic:${topic.id}`,
+      courseId: topic.courseId,
+      topicId: topic.id,
+      title: topic.title,
+      location: this.courses.get(topic.courseId)!.name,
+      snippet: details ? this.snippet(details, query) : '',
+      score,
+    };
+  }
+
+  private passageResult(passage: CoursePassage, query: string, score: number): CourseSearchResult {
+    const topic = this.findTopicForPassage(passage, query);
+    return {
+      key: `passage:${passage.id}`,
+      courseId: passage.courseId,
+      topicId: topic?.id ?? null,
+      title: topic?.title ?? passage.heading ?? passage.materialTitle ?? 'Course material',
+      location: [this.courses.get(passage.courseId)!.name, passage.materialTitle].filter(Boolean).join(' • '),
+      snippet: this.snippet(passage.content, query),
+      score,
+    };
+  }
+
+  // The course topic closest to the passage's heading and the query
+  private findTopicForPassage(passage: CoursePassage, query: string): Topic | null {
+    let topicIndex = this.topicIndexes.get(passage.courseId);
+    if (!topicIndex) {
+      topicIndex = new Bm25Index(
+        [...this.topics.values()]
+          .filter(topic => topic.courseId === passage.courseId)
+          .map(topic => ({ id: topic.id, text: topicText(topic) }))
+      );
+      this.topicIndexes.set(passage.courseId, topicIndex);
+    }
+
+    const [best] = topicIndex.search(`${passage.heading || ''} ${passage.heading || ''} ${query}`, 1);
+    return best ? this.topics.get(best.id)! : null;
+  }
+
+  // Text around the first word of the query found in it
+  private snippet(text: string, query: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const terms = new Set(tokenize(query));
+    let position = 0;
+    const words = /[\p{L}\p{N}]+/gu;
+    let match: RegExpExecArray | null;
+    while ((match = words.exec(flat)) !== null) {
+      if (tokenize(match[0]).some(term => terms.has(term))) {
+        position = match.index;
+        break;
+      }
+    }
+
+    const start = Math.max(0, position - SNIPPET_BEFORE);
+    const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+  }
+}
@@ -0,0 +1,36 @@
+// File: src/services/search/passageRetrieval.ts
+import { CoursePassage, Topic } from '../../types';
+import { Bm25Index } from './bm25';
+
+// Passages pulled in per topic, and the minimum score for a passage to count
+// as being about the topic at all
+const PASSAGES_PER_TOPIC = 2;
+const MIN_SCORE = 1;
+
+// Text a topic is matched on: its title (weighted by repetition), keywords
+// and learning objectives
+const topicQuery = (topic: Pick<Topic, 'title' | 'keywords' | 'learningObjectives'>): string =>
+  [topic.title, topic.title, ...(topic.keywords || []), ...(topic.learningObjectives || [])].join(' ');
+
+// Best passages for each topic, in topic order. A topic with nothing relevant
+// gets an empty list; the same passage can serve several topics.
+export const selectPassagesForTopics = (
+  topics: Pick<Topic, 'title' | 'keywords' | 'learningObjectives'>[],
+  passages: CoursePassage[],
+  perTopic = PASSAGES_PER_TOPIC
+): CoursePassage[][] => {
+  if (passages.length === 0) return topics.map(() => []);
+
+  const byId = new Map(passages.map(passage => [passage.id, passage]));
+  const index = new Bm25Index(passages.map(passage => ({
+    id: passage.id,
+    text: `${passage.heading || ''}\n${passage.content}`,
+  })));
+
+  return topics.map(topic =>
+    index
+      .search(topicQuery(topic), perTopic)
+      .filter(hit => hit.score >= MIN_SCORE)
+      .map(hit => byId.get(hit.id)!)
+  );
+};
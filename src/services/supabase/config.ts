@@ -26,4 +26,28 @@ export const TABLES = {
   COURSES: 'courses', 
   QUIZZES: 'quizzes',
   QUIZ_QUESTIONS: 'quiz_questions',
-} as const;
\ No newline at end of file
+  TOPIC_REVIEWS: 'topic_reviews',
+  TOPIC_MASTERY: 'topic_mastery',
+  STUDY_SCHEDULES: 'study_schedules',
+  COURSE_MATERIALS: 'course_materials',
+  COURSE_PASSAGES: 'course_passages',
+} as const;
+
+// Storage buckets (see supabase/migrations)
+export const STORAGE_BUCKETS = {
+  SYLLABI: 'syllabi',
+} as const;
+
+// Supabase Edge Functions (see supabase/functions)
+export const EDGE_FUNCTIONS = {
+  AI_PROXY: 'ai-proxy',
+} as const;
+
+// Postgres functions called through supabase.rpc (see supabase/migrations)
+export const RPC_FUNCTIONS = {
+  SAVE_COURSE_TOPICS: 'save_course_topics',
+  COMPLETE_QUIZ: 'complete_quiz',
+} as const;
+
+export const FUNCTIONS_URL = `${supabaseUrl}/functions/v1`;
+export const SUPABASE_ANON_KEY: string = supabaseAnonKey;
\ No newline at end of file
@@ -1,6 +1,7 @@
 
-import { supabase } from './config';
+import { supabase, STORAGE_BUCKETS } from './config';
 import { Course } from '../../types';
+import { readFileBytes } from '../files/fileBytes';
 
 export interface ServiceError {
   message: string;
@@ -14,6 +15,20 @@ export interface ServiceResponse<T> {
   success: boolean;
 }
 
+// A file picked on the device
+export interface LocalFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+// How long a link to view a syllabus stays valid
+const SYLLABUS_LINK_SECONDS = 60 * 60;
+
+// Storage keys allow only some characters; keep the file name readable
+const toStorageName = (fileName: string): string =>
+  fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'syllabus';
+
 export class CourseService {
   // Get current authenticated user ID
   private static async getCurrentUserId(): Promise<string | null> {
@@ -207,6 +222,41 @@ export class CourseService {
         };
       }
 
+      // Remove the course's files first, so a failure leaves the course in place
+      // to try again rather than files nothing points to
+      const folder = `${userId}/${id}`;
+      const { data: files, error: listError } = await supabase.storage
+        .from(STORAGE_BUCKETS.SYLLABI)
+        .list(folder);
+
+      if (listError) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to delete course files',
+            details: listError
+          },
+          success: false,
+        };
+      }
+
+      if (files && files.length > 0) {
+        const { error: removeError } = await supabase.storage
+          .from(STORAGE_BUCKETS.SYLLABI)
+          .remove(files.map(file => `${folder}/${file.name}`));
+
+        if (removeError) {
+          return {
+            data: null,
+            error: {
+              message: 'Failed to delete course files',
+              details: removeError
+            },
+            success: false,
+          };
+        }
+      }
+
       // Note: Topics will be deleted automatically via CASCADE constraint
       // when the course is deleted (if properly set up in database)
       const { error } = await supabase
@@ -292,6 +342,108 @@ export class CourseService {
     }
   }
 
+  // Upload a course's syllabus file to Storage and link it from the course.
+  // A syllabus with a different name replaces the previous one.
+  static async uploadSyllabus(courseId: string, file: LocalFile): Promise<ServiceResponse<Course>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const courseResponse = await this.getCourseById(courseId);
+      if (!courseResponse.success || !courseResponse.data) {
+        return courseResponse;
+      }
+      const previousPath = courseResponse.data.syllabusUrl;
+
+      const path = `${userId}/${courseId}/${toStorageName(file.name)}`;
+      const bytes = await readFileBytes(file.uri);
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKETS.SYLLABI)
+        .upload(path, bytes, {
+          contentType: file.type || 'application/octet-stream',
+          upsert: true,
+        });
+
+      if (uploadError) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to upload syllabus',
+            details: uploadError
+          },
+          success: false,
+        };
+      }
+
+      const updateResponse = await this.updateCourse(courseId, { syllabusUrl: path });
+      if (!updateResponse.success) {
+        return updateResponse;
+      }
+
+      if (previousPath && previousPath !== path) {
+        const { error: removeError } = await supabase.storage
+          .from(STORAGE_BUCKETS.SYLLABI)
+          .remove([previousPath]);
+        if (removeError) {
+          // The course already points at the new file; the old one is only clutter
+          console.error('Failed to remove previous syllabus:', removeError);
+        }
+      }
+
+      return updateResponse;
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while uploading syllabus',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Short-lived link to view a course's uploaded syllabus
+  static async getSyllabusLink(syllabusPath: string): Promise<ServiceResponse<string>> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(STORAGE_BUCKETS.SYLLABI)
+        .createSignedUrl(syllabusPath, SYLLABUS_LINK_SECONDS);
+
+      if (error || !data) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to open syllabus',
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: data.signedUrl,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while opening syllabus',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
   // Mark course as having topics extracted
   static async markTopicsExtracted(id: string): Promise<ServiceResponse<Course>> {
     return this.updateCourse(id, { topicsExtracted: true }); // Fixed: match database column name
@@ -0,0 +1,125 @@
+import { supabase, TABLES } from './config';
+import { TopicMastery } from '../../types';
+import { ServiceResponse } from './course';
+
+export class MasteryService {
+  // Get current authenticated user ID
+  private static async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id || null;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      return null;
+    }
+  }
+
+  // Get the mastery estimate of every answered topic in a course
+  static async getMasteryForCourse(courseId: string): Promise<ServiceResponse<TopicMastery[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.TOPIC_MASTERY)
+        .select('topicId, ability, answerCount, updatedAt')
+        .eq('courseId', courseId)
+        .eq('userId', userId);
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch topic mastery',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: data || [],
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching topic mastery',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Insert or update mastery estimates for a course
+  static async saveMastery(
+    courseId: string,
+    masteries: TopicMastery[]
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      if (masteries.length === 0) {
+        return {
+          data: true,
+          error: null,
+          success: true,
+        };
+      }
+
+      const rows = masteries.map(mastery => ({
+        ...mastery,
+        courseId,
+        userId,
+      }));
+
+      const { error } = await supabase
+        .from(TABLES.TOPIC_MASTERY)
+        .upsert(rows, { onConflict: 'userId,topicId' });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to save topic mastery',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: true,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while saving topic mastery',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+}
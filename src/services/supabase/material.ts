@@ -0,0 +1,240 @@
+import { supabase, TABLES } from './config';
+import { CourseMaterial, CoursePassage } from '../../types';
+import { ServiceResponse } from './course';
+
+const PASSAGE_WITH_MATERIAL = 'id, courseId, materialId, position, heading, content, course_materials(title)';
+
+// Row shape of a passage with the title of its material joined in
+interface PassageRow extends Omit<CoursePassage, 'materialTitle'> {
+  course_materials: { title: string } | null;
+}
+
+// Materials are created together with their topics by
+// TopicService.saveTopicsForCourse, so there is no separate create here.
+export class CourseMaterialService {
+  // Get current authenticated user ID
+  private static async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id || null;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      return null;
+    }
+  }
+
+  // Get the documents uploaded to a course, oldest first
+  static async getMaterialsForCourse(courseId: string): Promise<ServiceResponse<CourseMaterial[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.COURSE_MATERIALS)
+        .select('*')
+        .eq('courseId', courseId)
+        .eq('userId', userId)
+        .order('createdAt', { ascending: true });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch course materials',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: data || [],
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching course materials',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Get the text passages of every material in a course, in document order
+  static async getPassagesForCourse(courseId: string): Promise<ServiceResponse<CoursePassage[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.COURSE_PASSAGES)
+        .select(PASSAGE_WITH_MATERIAL)
+        .eq('courseId', courseId)
+        .eq('userId', userId)
+        .order('materialId', { ascending: true })
+        .order('position', { ascending: true })
+        .overrideTypes<PassageRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch course passages',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: (data || []).map(row => this.rowToPassage(row)),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching course passages',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Get the passages of every course of the current user (for search)
+  static async getAllPassages(): Promise<ServiceResponse<CoursePassage[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.COURSE_PASSAGES)
+        .select(PASSAGE_WITH_MATERIAL)
+        .eq('userId', userId)
+        .overrideTypes<PassageRow[], { merge: false }>();
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch course passages',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: (data || []).map(row => this.rowToPassage(row)),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching course passages',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Delete a material; the database deletes its passages and the topics
+  // extracted from it
+  static async deleteMaterial(materialId: string): Promise<ServiceResponse<boolean>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.COURSE_MATERIALS)
+        .delete()
+        .eq('id', materialId)
+        .eq('userId', userId)
+        .select('id');
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to delete material',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      if (!data || data.length === 0) {
+        return {
+          data: null,
+          error: { message: 'Material not found or access denied' },
+          success: false,
+        };
+      }
+
+      return {
+        data: true,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while deleting material',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Flatten the joined material title into the passage
+  private static rowToPassage(row: PassageRow): CoursePassage {
+    return {
+      id: row.id,
+      courseId: row.courseId,
+      materialId: row.materialId,
+      materialTitle: row.course_materials?.title ?? undefined,
+      position: row.position,
+      heading: row.heading,
+      content: row.content,
+    };
+  }
+}
@@ -0,0 +1,595 @@
+import { supabase, TABLES, RPC_FUNCTIONS } from './config';
+import {
+  QuestionGrade,
+  QuestionResponse,
+  QuestionSource,
+  QuestionType,
+  Quiz,
+  QuizAnswer,
+  QuizQuestion,
+} from '../../types';
+import { ServiceResponse } from './course';
+import { QuestionGrader } from '../quiz/grading';
+
+// Row shape of the quiz_questions table. The fields that depend on the
+// question type (options, answer key, rubric, ...) are stored in `details`.
+interface QuizQuestionRow {
+  id: string;
+  quizId: string;
+  question: string;
+  type: QuestionType;
+  details: { [field: string]: unknown };
+  explanation: string | null;
+  difficulty: QuizQuestion['difficulty'];
+  topic: string;
+  topicId: string | null;
+  source: QuestionSource | null;
+  orderIndex: number;
+  response: QuestionResponse | null;
+  grade: QuestionGrade | null;
+  timeSpent: number | null;
+}
+
+// Row shape of the quizzes table with its questions embedded
+interface QuizRow {
+  id: string;
+  courseId: string;
+  title: string;
+  scheduledFor: string;
+  completedAt: string | null;
+  score: number | null;
+  timeSpent: number | null;
+  quiz_questions?: QuizQuestionRow[];
+}
+
+// Row shape of a quiz joined to the course it belongs to
+interface QuizOwnerRow {
+  courseId: string;
+  courses: { userId: string };
+}
+
+const QUIZ_WITH_QUESTIONS = '*, quiz_questions(*)';
+
+// SQLSTATE complete_quiz raises for a quiz that was already submitted
+const QUIZ_ALREADY_COMPLETED = '55000';
+
+export class QuizService {
+  // Get current authenticated user ID
+  private static async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id || null;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      return null;
+    }
+  }
+
+  // Verify course belongs to current user
+  private static async verifyCourseOwnership(courseId: string): Promise<boolean> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return false;
+      }
+
+      const { data: course, error } = await supabase
+        .from(TABLES.COURSES)
+        .select('id, "userId"')
+        .eq('id', courseId)
+        .eq('"userId"', userId)
+        .single();
+
+      if (error) {
+        console.error('QuizService.verifyCourseOwnership: Query error:', error);
+        return false;
+      }
+
+      return !!course;
+    } catch (error) {
+      console.error('QuizService.verifyCourseOwnership: Exception:', error);
+      return false;
+    }
+  }
+
+  // Verify quiz belongs to one of the current user's courses
+  private static async verifyQuizOwnership(quizId: string): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) {
+      return false;
+    }
+
+    const { data: quiz } = await supabase
+      .from(TABLES.QUIZZES)
+      .select('courseId, courses!inner(userId)')
+      .eq('id', quizId)
+      .single<QuizOwnerRow>();
+
+    return !!quiz && quiz.courses.userId === userId;
+  }
+
+  // Create a quiz together with its questions
+  static async createQuiz(
+    courseId: string,
+    quizData: Pick<Quiz, 'title' | 'scheduledFor' | 'questions'>
+  ): Promise<ServiceResponse<Quiz>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      // Verify course ownership
+      const hasAccess = await this.verifyCourseOwnership(courseId);
+      if (!hasAccess) {
+        return {
+          data: null,
+          error: { message: 'Course not found or access denied' },
+          success: false,
+        };
+      }
+
+      if (quizData.questions.length === 0) {
+        return {
+          data: null,
+          error: { message: 'A quiz needs at least one question' },
+          success: false,
+        };
+      }
+
+      const { data: quiz, error } = await supabase
+        .from(TABLES.QUIZZES)
+        .insert({
+          courseId,
+          title: quizData.title,
+          scheduledFor: quizData.scheduledFor,
+          createdAt: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error || !quiz) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to create quiz',
+            code: error?.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      const questionsToInsert = quizData.questions.map((question, index) => ({
+        quizId: quiz.id,
+        question: question.question,
+        type: question.type,
+        details: this.questionDetails(question),
+        explanation: question.explanation ?? null,
+        difficulty: question.difficulty,
+        topic: question.topic,
+        topicId: question.topicId ?? null,
+        source: question.source ?? null,
+        orderIndex: index + 1,
+      }));
+
+      const { data: questionRows, error: questionsError } = await supabase
+        .from(TABLES.QUIZ_QUESTIONS)
+        .insert(questionsToInsert)
+        .select();
+
+      if (questionsError) {
+        // Don't leave an empty quiz behind
+        await supabase.from(TABLES.QUIZZES).delete().eq('id', quiz.id);
+
+        return {
+          data: null,
+          error: {
+            message: 'Failed to save quiz questions',
+            code: questionsError.code,
+            details: questionsError
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: this.rowToQuiz({ ...quiz, quiz_questions: questionRows || [] }),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while creating quiz',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Get all quizzes for a course, newest schedule first
+  static async getQuizzesForCourse(courseId: string): Promise<ServiceResponse<Quiz[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      // Verify course ownership
+      const hasAccess = await this.verifyCourseOwnership(courseId);
+      if (!hasAccess) {
+        return {
+          data: null,
+          error: { message: 'Course not found or access denied' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.QUIZZES)
+        .select(QUIZ_WITH_QUESTIONS)
+        .eq('courseId', courseId)
+        .order('scheduledFor', { ascending: false });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch quizzes',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: ((data || []) as QuizRow[]).map(row => this.rowToQuiz(row)),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching quizzes',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Get uncompleted quizzes scheduled up to now across all of the user's courses
+  static async getDueQuizzes(): Promise<ServiceResponse<Quiz[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.QUIZZES)
+        .select('*, quiz_questions(*), courses!inner(userId)')
+        .eq('courses.userId', userId)
+        .is('completedAt', null)
+        .lte('scheduledFor', new Date().toISOString())
+        .order('scheduledFor', { ascending: true });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch due quizzes',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: ((data || []) as QuizRow[]).map(row => this.rowToQuiz(row)),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching due quizzes',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Get uncompleted quizzes scheduled after now across all of the user's
+  // courses, soonest first
+  static async getUpcomingQuizzes(): Promise<ServiceResponse<Quiz[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.QUIZZES)
+        .select('*, quiz_questions(*), courses!inner(userId)')
+        .eq('courses.userId', userId)
+        .is('completedAt', null)
+        .gt('scheduledFor', new Date().toISOString())
+        .order('scheduledFor', { ascending: true });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch upcoming quizzes',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: ((data || []) as QuizRow[]).map(row => this.rowToQuiz(row)),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching upcoming quizzes',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Record answers, grade them, score the quiz and mark it completed. Short
+  // answers take their grade from `modelGrades` (see AnswerGradingService);
+  // one without a grade there is saved ungraded and left out of the score.
+  static async submitQuizAnswers(
+    quizId: string,
+    answers: QuizAnswer[],
+    modelGrades: Map<string, QuestionGrade> = new Map()
+  ): Promise<ServiceResponse<Quiz>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const hasAccess = await this.verifyQuizOwnership(quizId);
+      if (!hasAccess) {
+        return {
+          data: null,
+          error: { message: 'Quiz not found or access denied' },
+          success: false,
+        };
+      }
+
+      const { data: quizRow, error: fetchError } = await supabase
+        .from(TABLES.QUIZZES)
+        .select(QUIZ_WITH_QUESTIONS)
+        .eq('id', quizId)
+        .single();
+
+      if (fetchError || !quizRow) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to load quiz questions',
+            code: fetchError?.code,
+            details: fetchError
+          },
+          success: false,
+        };
+      }
+
+      if ((quizRow as QuizRow).completedAt) {
+        return {
+          data: null,
+          error: { message: 'Quiz has already been submitted' },
+          success: false,
+        };
+      }
+
+      // Objective questions are graded here against the stored answer keys.
+      // Short-answer grades come from the caller, so they are only accepted
+      // for answered short answers and clamped to 0-1 (see acceptModelGrade).
+      const answersById = new Map(answers.map(answer => [answer.questionId, answer]));
+      const graded = ((quizRow as QuizRow).quiz_questions ?? []).map(row => {
+        const question = this.rowToQuestion(row);
+        const answer = answersById.get(row.id);
+        const response = answer?.response ?? null;
+        const grade = QuestionGrader.grade(question, response)
+          ?? QuestionGrader.acceptModelGrade(question, response, modelGrades.get(row.id));
+        return { id: row.id, response, grade, timeSpent: answer?.timeSpent ?? null };
+      });
+      const timeSpent = answers.reduce((total, answer) => total + answer.timeSpent, 0);
+
+      // Saves every answer and completes the quiz in one transaction; the
+      // score stays empty while no answer is graded
+      const { error: completeError } = await supabase.rpc(RPC_FUNCTIONS.COMPLETE_QUIZ, {
+        p_quiz_id: quizId,
+        p_answers: graded,
+        p_time_spent: timeSpent,
+      });
+
+      if (completeError) {
+        return {
+          data: null,
+          error: {
+            message: completeError.code === QUIZ_ALREADY_COMPLETED
+              ? 'Quiz has already been submitted'
+              : 'Failed to save quiz answers',
+            code: completeError.code,
+            details: completeError
+          },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.QUIZZES)
+        .select(QUIZ_WITH_QUESTIONS)
+        .eq('id', quizId)
+        .single();
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to complete quiz',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: this.rowToQuiz(data as QuizRow),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while submitting quiz',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Delete a quiz (questions are removed via CASCADE)
+  static async deleteQuiz(quizId: string): Promise<ServiceResponse<boolean>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const hasAccess = await this.verifyQuizOwnership(quizId);
+      if (!hasAccess) {
+        return {
+          data: null,
+          error: { message: 'Quiz not found or access denied' },
+          success: false,
+        };
+      }
+
+      const { error } = await supabase
+        .from(TABLES.QUIZZES)
+        .delete()
+        .eq('id', quizId);
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to delete quiz',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: true,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while deleting quiz',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Convert database rows to the Quiz shape used by the app
+  private static rowToQuiz(row: QuizRow): Quiz {
+    const questions = [...(row.quiz_questions || [])]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(questionRow => this.rowToQuestion(questionRow));
+
+    return {
+      id: row.id,
+      courseId: row.courseId,
+      title: row.title,
+      questions,
+      scheduledFor: row.scheduledFor,
+      completedAt: row.completedAt ?? undefined,
+      score: row.score ?? undefined,
+      timeSpent: row.timeSpent ?? undefined,
+    };
+  }
+
+  private static rowToQuestion(row: QuizQuestionRow): QuizQuestion {
+    return {
+      ...row.details,
+      id: row.id,
+      type: row.type,
+      question: row.question,
+      explanation: row.explanation ?? undefined,
+      difficulty: row.difficulty,
+      topic: row.topic,
+      topicId: row.topicId ?? undefined,
+      source: row.source ?? undefined,
+      response: row.response ?? undefined,
+      grade: row.grade ?? undefined,
+      timeSpent: row.timeSpent ?? undefined,
+    } as QuizQuestion;
+  }
+
+  // The fields of a question that depend on its type
+  private static questionDetails(question: QuizQuestion): { [field: string]: unknown } {
+    const {
+      id, type, question: text, explanation, difficulty, topic, topicId, source, response, grade, timeSpent,
+      ...details
+    } = question;
+    return details;
+  }
+}
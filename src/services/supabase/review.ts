@@ -0,0 +1,128 @@
+import { supabase, TABLES } from './config';
+import { ReviewState } from '../../types';
+import { ServiceResponse } from './course';
+
+export class ReviewService {
+  // Get current authenticated user ID
+  private static async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id || null;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      return null;
+    }
+  }
+
+  // Get spaced-repetition state for every reviewed topic in a course
+  static async getReviewStatesForCourse(courseId: string): Promise<ServiceResponse<ReviewState[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.TOPIC_REVIEWS)
+        .select('itemId, easeFactor, interval, repetitions, lapses, dueDate, lastReviewedAt')
+        .eq('courseId', courseId)
+        .eq('userId', userId);
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch review history',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: (data || []).map(row => ({
+          ...row,
+          lastReviewedAt: row.lastReviewedAt ?? undefined,
+        })),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching review history',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Insert or update review states for a course
+  static async saveReviewStates(
+    courseId: string,
+    states: ReviewState[]
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      if (states.length === 0) {
+        return {
+          data: true,
+          error: null,
+          success: true,
+        };
+      }
+
+      const rows = states.map(state => ({
+        ...state,
+        courseId,
+        userId,
+      }));
+
+      const { error } = await supabase
+        .from(TABLES.TOPIC_REVIEWS)
+        .upsert(rows, { onConflict: 'userId,itemId' });
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to save review history',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: true,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while saving review history',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+}
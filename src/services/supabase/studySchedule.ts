@@ -0,0 +1,131 @@
+import { supabase, TABLES } from './config';
+import { StudySchedule } from '../../types';
+import { ServiceResponse } from './course';
+import { StudyScheduleFormData } from '../../schemas/studyScheduleSchema';
+
+export class StudyScheduleService {
+  // Get current authenticated user ID
+  private static async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      return user?.id || null;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      return null;
+    }
+  }
+
+  // Get the schedule for a course, falling back to the user's default schedule.
+  // Resolves to null data when the user has never saved preferences.
+  static async getScheduleForCourse(courseId: string): Promise<ServiceResponse<StudySchedule>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from(TABLES.STUDY_SCHEDULES)
+        .select('*')
+        .eq('userId', userId)
+        .or(`courseId.eq.${courseId},courseId.is.null`);
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to fetch study schedule',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      const schedules: StudySchedule[] = data || [];
+      const schedule = schedules.find(s => s.courseId === courseId)
+        || schedules.find(s => s.courseId === null)
+        || null;
+
+      return {
+        data: schedule,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while fetching study schedule',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+
+  // Create or replace the schedule for a course (null courseId = user default)
+  static async saveSchedule(
+    courseId: string | null,
+    scheduleData: StudyScheduleFormData
+  ): Promise<ServiceResponse<StudySchedule>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      // A single upsert on ("userId", "courseId") so two saves can't both
+      // insert; createdAt keeps its default on the insert and isn't touched
+      // on update
+      const { data, error } = await supabase
+        .from(TABLES.STUDY_SCHEDULES)
+        .upsert(
+          {
+            ...scheduleData,
+            userId,
+            courseId,
+            updatedAt: new Date().toISOString(),
+          },
+          { onConflict: 'userId,courseId' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          data: null,
+          error: {
+            message: 'Failed to save study schedule',
+            code: error.code,
+            details: error
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: data,
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: {
+          message: 'Network error while saving study schedule',
+          details: error
+        },
+        success: false,
+      };
+    }
+  }
+}
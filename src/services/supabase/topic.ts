@@ -1,7 +1,8 @@
 
-import { supabase } from './config';
-import { Topic } from '../../types';
-import { ExtractedTopic } from '../../services/openai/topicExtraction';
+import { supabase, TABLES, RPC_FUNCTIONS } from './config';
+import { CourseMaterial, CourseSchedule, NewCourseMaterial, Topic } from '../../types';
+import { ExtractedSchedule, ExtractedTopic } from '../../services/openai/topicExtraction';
+import { planTopicSave, TopicSavePlan } from '../topics/topicMerge';
 
 export interface ServiceError {
   message: string;
@@ -15,6 +16,17 @@ export interface ServiceResponse<T> {
   success: boolean;
 }
 
+// Row shape of a topic joined to the course it belongs to
+interface TopicWithOwnerRow extends Topic {
+  courses: { userId: string };
+}
+
+export interface SavedTopics {
+  topics: Topic[]; // every topic of the course, in order
+  schedule: CourseSchedule;
+  material: CourseMaterial | null; // material created by the save, if any
+}
+
 export class TopicService {
   // Get current authenticated user ID
   private static async getCurrentUserId(): Promise<string | null> {
@@ -58,11 +70,21 @@ export class TopicService {
     }
   }
 
-  // Save topics for a course (replaces existing topics)
+  // Save topics for a course along with the course schedule. The list is
+  // diffed against the saved topics (see planTopicSave) so matching topics
+  // keep their ids, and the whole save runs in one database transaction.
+  // Without a new schedule the course keeps its start date and assessments;
+  // topic weeks always come from the topics being saved.
+  // With a material, the topics are its extracted topics: the material is
+  // created with them and the course's other topics are left untouched. A
+  // file the course already has (same name) replaces that material, and its
+  // topics are diffed against the ones extracted from it before.
   static async saveTopicsForCourse(
     courseId: string, 
-    extractedTopics: ExtractedTopic[]
-  ): Promise<ServiceResponse<Topic[]>> {
+    extractedTopics: ExtractedTopic[],
+    extractedSchedule?: ExtractedSchedule,
+    material?: NewCourseMaterial
+  ): Promise<ServiceResponse<SavedTopics>> {
     try {
       console.log('🔍 TopicService: Starting save for course:', courseId);
       console.log('🔍 TopicService: Number of topics:', extractedTopics.length);
@@ -92,67 +114,76 @@ export class TopicService {
 
       console.log('🔍 TopicService: Course access verified');
 
-      // Delete existing topics for this course
-      console.log('🔍 TopicService: Deleting existing topics...');
-      const { error: deleteError } = await supabase
+      const { data: existing, error: fetchError } = await supabase
         .from('topics')
-        .delete()
+        .select('*')
         .eq('"courseId"', courseId); // Fixed: properly quote the column name
 
-      if (deleteError) {
-        console.error('🔍 TopicService: Delete error:', deleteError);
+      if (fetchError) {
+        console.error('🔍 TopicService: Fetch error:', fetchError);
         return {
           data: null,
           error: { 
-            message: 'Failed to clear existing topics', 
-            code: deleteError.code,
-            details: deleteError 
+            message: 'Failed to load existing topics', 
+            code: fetchError.code,
+            details: fetchError 
           },
           success: false,
         };
       }
 
-      console.log('🔍 TopicService: Existing topics deleted');
-
-      // Convert ExtractedTopics to Topic format for database
-      const topicsToInsert = extractedTopics.map((topic, index) => ({
-        "courseId": courseId, // Fixed: properly quote the column name
-        title: topic.title,
-        content: topic.keywords ? topic.keywords.join(', ') : '',
-        "orderIndex": topic.order || index + 1, // Fixed: properly quote the column name
-        "createdAt": new Date().toISOString(), // Fixed: properly quote the column name
-      }));
-
-      console.log('🔍 TopicService: Topics to insert:', topicsToInsert);
-
-      // If no topics to insert, just update the course
-      if (topicsToInsert.length === 0) {
-        console.log('🔍 TopicService: No topics to insert, updating course...');
-        // Update course to mark topics as extracted (even if empty)
-        await supabase
-          .from('courses')
-          .update({ 
-            "topicsExtracted": true, // Fixed: properly quote the column name
-            "updatedAt": new Date().toISOString() // Fixed: properly quote the column name
-          })
-          .eq('id', courseId);
-
-        return {
-          data: [],
-          error: null,
-          success: true,
-        };
+      const existingTopics = (existing as Topic[]) || [];
+      let plan: TopicSavePlan;
+      let materialToSave: (Omit<NewCourseMaterial, 'fileUri'> & { id?: string }) | null = null;
+
+      if (material) {
+        const { data: previous, error: materialError } = await supabase
+          .from(TABLES.COURSE_MATERIALS)
+          .select('id')
+          .eq('courseId', courseId)
+          .eq('title', material.title)
+          .order('createdAt', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (materialError) {
+          console.error('🔍 TopicService: Material lookup error:', materialError);
+          return {
+            data: null,
+            error: {
+              message: 'Failed to load course materials',
+              code: materialError.code,
+              details: materialError
+            },
+            success: false,
+          };
+        }
+
+        // The material's topics go after the course's other topics
+        const materialTopics = existingTopics.filter(topic => previous && topic.materialId === previous.id);
+        const otherTopics = existingTopics.filter(topic => !materialTopics.includes(topic));
+        plan = planTopicSave(
+          materialTopics,
+          extractedTopics,
+          otherTopics.length > 0 ? Math.max(...otherTopics.map(topic => topic.orderIndex)) + 1 : undefined
+        );
+        // The local file path means nothing to the database
+        const { fileUri, ...materialFields } = material;
+        materialToSave = previous ? { ...materialFields, id: previous.id } : materialFields;
+      } else {
+        plan = planTopicSave(existingTopics, extractedTopics);
       }
+      console.log('🔍 TopicService: Updating', plan.updated, 'inserting', plan.inserted, 'deleting', plan.deleted);
 
-      // Insert new topics
-      console.log('🔍 TopicService: Inserting new topics...');
-      const { data, error } = await supabase
-        .from('topics')
-        .insert(topicsToInsert)
-        .select();
+      const { data, error } = await supabase.rpc(RPC_FUNCTIONS.SAVE_COURSE_TOPICS, {
+        p_course_id: courseId,
+        p_topics: plan.entries,
+        p_schedule: extractedSchedule ?? null,
+        p_material: materialToSave,
+      });
 
       if (error) {
-        console.error('🔍 TopicService: Insert error:', error);
+        console.error('🔍 TopicService: Save error:', error);
         return {
           data: null,
           error: { 
@@ -164,27 +195,10 @@ export class TopicService {
         };
       }
 
-      console.log('🔍 TopicService: Topics inserted successfully:', data);
-
-      // Update course to mark topics as extracted
-      console.log('🔍 TopicService: Updating course topicsExtracted flag...');
-      const { error: updateError } = await supabase
-        .from('courses')
-        .update({ 
-          "topicsExtracted": true, // Fixed: properly quote the column name
-          "updatedAt": new Date().toISOString() // Fixed: properly quote the column name
-        })
-        .eq('id', courseId);
-
-      if (updateError) {
-        console.error('🔍 TopicService: Course update error:', updateError);
-        // Don't fail the whole operation for this
-      }
-
       console.log('🔍 TopicService: Save completed successfully');
 
       return {
-        data: data || [],
+        data: data as SavedTopics,
         error: null,
         success: true,
       };
@@ -258,10 +272,57 @@ export class TopicService {
     }
   }
 
+  // Get the topics of every course of the current user (for search)
+  static async getAllTopics(): Promise<ServiceResponse<Topic[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) {
+        return {
+          data: null,
+          error: { message: 'User not authenticated' },
+          success: false,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('topics')
+        .select('*, courses!inner(userId)')
+        .eq('courses.userId', userId)
+        .order('"orderIndex"', { ascending: true });
+
+      if (error) {
+        return {
+          data: null,
+          error: { 
+            message: 'Failed to fetch topics', 
+            code: error.code,
+            details: error 
+          },
+          success: false,
+        };
+      }
+
+      return {
+        data: ((data || []) as TopicWithOwnerRow[]).map(({ courses, ...topic }) => topic),
+        error: null,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        data: null,
+        error: { 
+          message: 'Network error while fetching topics',
+          details: error 
+        },
+        success: false,
+      };
+    }
+  }
+
   // Create a new topic
   static async createTopic(
     courseId: string,
-    topicData: Pick<Topic, 'title' | 'content' | 'orderIndex'>
+    topicData: Pick<Topic, 'title' | 'content' | 'orderIndex'> & Partial<Pick<Topic, 'keywords' | 'parentId' | 'learningObjectives'>>
   ): Promise<ServiceResponse<Topic>> {
     try {
       const userId = await this.getCurrentUserId();
@@ -325,7 +386,7 @@ export class TopicService {
   // Update a single topic
   static async updateTopic(
     topicId: string,
-    updates: Partial<Pick<Topic, 'title' | 'content' | 'orderIndex'>>
+    updates: Partial<Pick<Topic, 'title' | 'content' | 'keywords' | 'orderIndex' | 'parentId' | 'learningObjectives'>>
   ): Promise<ServiceResponse<Topic>> {
     try {
       const userId = await this.getCurrentUserId();
@@ -455,7 +516,10 @@ export class TopicService {
       id: topic.id,
       title: topic.title,
       order: topic.orderIndex,
-      keywords: topic.content ? topic.content.split(', ').filter(k => k.trim()) : [],
+      keywords: topic.keywords || [],
+      notes: topic.content || undefined,
+      parentId: topic.parentId,
+      learningObjectives: topic.learningObjectives || [],
     };
   }
 
@@ -467,8 +531,12 @@ export class TopicService {
     return {
       courseId,
       title: extractedTopic.title,
-      content: extractedTopic.keywords ? extractedTopic.keywords.join(', ') : '',
+      content: extractedTopic.notes || '',
+      keywords: extractedTopic.keywords || [],
       orderIndex: extractedTopic.order,
+      parentId: extractedTopic.parentId || null,
+      learningObjectives: extractedTopic.learningObjectives || [],
+      materialId: null,
     };
   }
 }
\ No newline at end of file
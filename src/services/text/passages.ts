@@ -0,0 +1,68 @@
+// File: src/services/text/passages.ts
+import { PassageDraft } from '../../types';
+import { SyllabusTextNormalizer } from './syllabusText';
+
+// Passages are what quiz questions cite, so they are kept short enough to
+// read as a source but long enough to hold a complete explanation
+const MAX_PASSAGE_LENGTH = 1200;
+// A passage isn't split before this length, so a short lead-in stays with
+// the text that follows it
+const MIN_PASSAGE_LENGTH = 200;
+
+// Splits a document's extracted text into passages that follow its headings,
+// packing paragraphs and bullets up to MAX_PASSAGE_LENGTH characters
+export class PassageSplitter {
+  static split(text: string): PassageDraft[] {
+    const passages: PassageDraft[] = [];
+
+    SyllabusTextNormalizer.toSections(text).forEach(section => {
+      let current: string[] = [];
+      let length = 0;
+
+      const flush = () => {
+        const content = current.join('\n').trim();
+        if (content) {
+          passages.push({ position: passages.length + 1, heading: section.heading, content });
+        }
+        current = [];
+        length = 0;
+      };
+
+      section.blocks
+        .flatMap(block => this.splitLongText(block.type === 'bullet' ? `- ${block.text}` : block.text))
+        .forEach(line => {
+          if (length >= MIN_PASSAGE_LENGTH && length + line.length > MAX_PASSAGE_LENGTH) {
+            flush();
+          }
+          current.push(line);
+          length += line.length + 1;
+        });
+      flush();
+    });
+
+    return passages;
+  }
+
+  // Break a paragraph longer than a passage at sentence ends
+  private static splitLongText(text: string): string[] {
+    if (text.length <= MAX_PASSAGE_LENGTH) return [text];
+
+    const pieces: string[] = [];
+    let current = '';
+    (text.match(/[^.!?]+[.!?]*\s*/g) || [text]).forEach(sentence => {
+      if (current && current.length + sentence.length > MAX_PASSAGE_LENGTH) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+    });
+    if (current.trim()) pieces.push(current.trim());
+
+    // A single sentence can still be too long; cut it at word boundaries
+    return pieces.flatMap(piece =>
+      piece.length <= MAX_PASSAGE_LENGTH
+        ? [piece]
+        : piece.match(new RegExp(`.{1,${MAX_PASSAGE_LENGTH}}(\\s|$)`, 'g'))?.map(part => part.trim()) || [piece]
+    );
+  }
+}
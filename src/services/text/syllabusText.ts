@@ -0,0 +1,238 @@
+// File: src/services/text/syllabusText.ts
+
+// Shared section model for syllabus text. File extraction and topic
+// extraction both run text through here so that accents, math symbols and
+// non-Latin scripts survive, and headings, bullet lists and week markers come
+// out as structured sections instead of a flat blob.
+
+export type SectionBlockType = 'paragraph' | 'bullet' | 'table_row';
+
+export interface SectionBlock {
+  type: SectionBlockType;
+  text: string;
+}
+
+export interface WeekRange {
+  start: number;
+  end: number;
+}
+
+export interface SyllabusSection {
+  heading: string | null; // null for text before the first heading
+  level: number; // 1-6, 0 for the untitled preamble
+  week?: WeekRange; // set for "Week 3-4: ..." style markers
+  blocks: SectionBlock[];
+}
+
+const MAX_HEADING_LEVEL = 6;
+const MAX_HEADING_LENGTH = 120;
+
+// Control characters except tab and newline, plus zero-width characters and soft hyphens
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+// No-break and typographic spaces
+const UNICODE_SPACES = /[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g;
+
+// Typographic ligatures PDFs often emit for "fi", "fl" etc.
+const LIGATURES: { [ligature: string]: string } = {
+  '\uFB00': 'ff', '\uFB01': 'fi', '\uFB02': 'fl', '\uFB03': 'ffi', '\uFB04': 'ffl', '\uFB05': 'st', '\uFB06': 'st',
+};
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const BULLET = /^(?:[-*+•◦▪▫●○■□‣⁃∙·–—►➢✓✔]|\(?\d{1,2}[.)])\s+(.+)$/;
+const WEEK_MARKER = /^(?:weeks?|wk)\.?\s*(\d{1,2})(?:\s*(?:-|–|—|to|&|and|through)\s*(\d{1,2}))?(?=$|[\s:.,)–—-])[\s:.,)–—-]*(.*)$/i;
+const UNIT_MARKER = /^(?:module|unit|lecture|session|chapter|part)\s+(\d{1,2}|[IVX]{1,5})(?=$|[\s:.,)–—-])/i;
+
+export class SyllabusTextNormalizer {
+  // Character-level cleanup that keeps every printable Unicode character
+  static normalize(text: string): string {
+    if (!text) return '';
+
+    let normalized = text;
+    try {
+      normalized = normalized.normalize('NFC'); // Compose accents split by PDF/DOCX writers
+    } catch (error) {
+      // Older JS engines without Intl support; the text is still usable
+    }
+
+    return normalized
+      .replace(/\r\n?/g, '\n')
+      .replace(INVISIBLE_CHARACTERS, '')
+      .replace(UNICODE_SPACES, ' ')
+      .replace(/[\uFB00-\uFB06]/g, ligature => LIGATURES[ligature] ?? ligature)
+      .replace(/[ \t]+/g, ' ')
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n');
+  }
+
+  // Split normalized text into heading-delimited sections
+  static toSections(text: string): SyllabusSection[] {
+    const sections: SyllabusSection[] = [];
+    let current: SyllabusSection = { heading: null, level: 0, blocks: [] };
+    let parentLevel = 0; // level of the latest non-week heading
+    let previousBlank = true;
+
+    const startSection = (section: SyllabusSection) => {
+      if (current.heading !== null || current.blocks.length > 0) {
+        sections.push(current);
+      }
+      current = section;
+    };
+
+    this.normalize(text).split('\n').forEach(line => {
+      if (!line) {
+        previousBlank = true;
+        return;
+      }
+
+      const heading = this.parseHeading(line, previousBlank);
+      if (heading) {
+        if (heading.week && heading.level === 0) {
+          // Plain "Week 3:" lines nest under the heading they appear in
+          startSection({ ...heading, level: Math.min(parentLevel + 1, MAX_HEADING_LEVEL) });
+        } else {
+          if (!heading.week) parentLevel = heading.level;
+          startSection(heading);
+        }
+        previousBlank = false;
+        return;
+      }
+
+      const bullet = BULLET.exec(line);
+      if (bullet) {
+        current.blocks.push({ type: 'bullet', text: bullet[1] });
+      } else if (line.includes(' | ')) {
+        current.blocks.push({ type: 'table_row', text: line });
+      } else {
+        const last = current.blocks[current.blocks.length - 1];
+        // Re-join words hyphenated across a line break ("stat-\nistics")
+        if (!previousBlank && last?.type === 'paragraph' && /\p{L}-$/u.test(last.text) && /^\p{Ll}/u.test(line)) {
+          last.text = last.text.slice(0, -1) + line;
+        } else {
+          current.blocks.push({ type: 'paragraph', text: line });
+        }
+      }
+      previousBlank = false;
+    });
+
+    startSection({ heading: null, level: 0, blocks: [] });
+    return sections;
+  }
+
+  // Render sections back to text with Markdown-style headings and bullets
+  static formatSections(sections: SyllabusSection[]): string {
+    return sections
+      .map(section => {
+        const lines = section.blocks.map(block => (block.type === 'bullet' ? `- ${block.text}` : block.text));
+        if (section.heading !== null) {
+          lines.unshift(`${'#'.repeat(Math.max(1, section.level))} ${section.heading}`);
+        }
+        return lines.join('\n');
+      })
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  // Normalize and restructure in one step
+  static clean(text: string): string {
+    return this.formatSections(this.toSections(text));
+  }
+
+  // Recognise Markdown headings, week/unit markers, ALL-CAPS titles and short "Label:" lines
+  private static parseHeading(line: string, previousBlank: boolean): SyllabusSection | null {
+    if (line.length > MAX_HEADING_LENGTH) {
+      return null;
+    }
+
+    const markdown = MARKDOWN_HEADING.exec(line);
+    if (markdown) {
+      const inner = markdown[2];
+      const week = WEEK_MARKER.exec(inner);
+      return {
+        heading: inner,
+        level: markdown[1].length,
+        week: week ? this.toWeekRange(week) : undefined,
+        blocks: [],
+      };
+    }
+
+    const week = WEEK_MARKER.exec(line);
+    if (week) {
+      return { heading: line, level: 0, week: this.toWeekRange(week), blocks: [] };
+    }
+
+    if (UNIT_MARKER.test(line) && line.length <= 80) {
+      return { heading: line, level: 2, blocks: [] };
+    }
+
+    const letters = line.replace(/[^\p{L}]/gu, '');
+    const isAllCaps = letters.length >= 3
+      && line === line.toLocaleUpperCase()
+      && line !== line.toLocaleLowerCase()
+      && line.length <= 80
+      && !line.includes(' | ');
+    if (isAllCaps) {
+      return { heading: line, level: 2, blocks: [] };
+    }
+
+    // "Course Description:" style labels, only at the start of a block
+    const words = line.split(' ').length;
+    if (previousBlank && line.endsWith(':') && words <= 6 && line.indexOf(':') === line.length - 1) {
+      return { heading: line.slice(0, -1).trim(), level: 3, blocks: [] };
+    }
+
+    return null;
+  }
+
+  private static toWeekRange(match: RegExpExecArray): WeekRange {
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    return { start: Math.min(start, end), end: Math.max(start, end) };
+  }
+}
+
+export interface TextChunk {
+  text: string;
+  start: number; // offsets into the text that was chunked
+  end: number;
+}
+
+// Split text into chunks of at most maxChars that overlap by about
+// overlapChars, breaking at section boundaries, then blank lines, then lines
+export const chunkText = (text: string, maxChars: number, overlapChars: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(text.length, start + maxChars);
+
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const minBreak = Math.floor(maxChars / 2);
+      const breakAt = [/\n\n(?=#)/g, /\n\n/g, /\n/g, / /g]
+        .map(pattern => {
+          let last = -1;
+          let match: RegExpExecArray | null;
+          while ((match = pattern.exec(window)) !== null) last = match.index;
+          return last;
+        })
+        .find(index => index >= minBreak);
+      if (breakAt !== undefined) {
+        end = start + breakAt;
+      }
+    }
+
+    chunks.push({ text: text.slice(start, end).trim(), start, end });
+    if (end >= text.length) break;
+
+    // Start the next chunk a little before this one ended, at a line start
+    let next = Math.max(start + 1, end - overlapChars);
+    const lineStart = text.indexOf('\n', next);
+    if (lineStart !== -1 && lineStart < end) {
+      next = lineStart + 1;
+    }
+    start = next;
+  }
+
+  return chunks.filter(chunk => chunk.text.length > 0);
+};
@@ -0,0 +1,30 @@
+// File: src/services/text/titleMatching.ts
+
+// Words ignored when comparing topic titles
+const TITLE_STOPWORDS = new Set(['a', 'an', 'and', 'the', 'of', 'to', 'in', 'on', 'for', 'with', 'introduction', 'intro']);
+
+// Word-set overlap at which two titles count as the same topic
+const SAME_TITLE_OVERLAP = 0.6;
+
+// Significant lowercase words of a title, without "Week 3:" style prefixes
+export const getTitleWords = (title: string): string[] =>
+  title
+    .toLowerCase()
+    .replace(/^(weeks?|module|unit|chapter|lecture|part)\s*\d+(\s*[-–]\s*\d+)?\s*[:.\-–—]?\s*/, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !TITLE_STOPWORDS.has(word));
+
+// Jaccard overlap of two titles' word sets (0-1)
+export const titleOverlap = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) {
+    return a.join(' ') === b.join(' ') ? 1 : 0;
+  }
+  const setA = new Set(a);
+  const shared = new Set(b.filter(word => setA.has(word))).size;
+  const union = new Set([...a, ...b]).size;
+  return shared / union;
+};
+
+// Titles match when their word sets mostly overlap
+export const isSameTitle = (a: string[], b: string[]): boolean =>
+  titleOverlap(a, b) >= SAME_TITLE_OVERLAP;
@@ -0,0 +1,206 @@
+// File: src/services/text/topicGrounding.ts
+
+// Checks extracted topics against the syllabus they came from: where each
+// topic appears, how many of its keywords occur in the text, and whether it
+// looks like a duplicate or administrative noise (grading, textbooks, ...).
+
+export interface TopicSource {
+  heading: string | null; // heading of the syllabus section the topic matches
+  offset: number; // character offset of that section in the cleaned text
+}
+
+export interface TopicGrounding {
+  confidence: number; // 0-100
+  source: TopicSource | null; // null when the title isn't found at all
+  issues: string[]; // human-readable reasons for a lower score
+}
+
+interface GroundingInput {
+  id: string;
+  title: string;
+  keywords?: string[];
+  parentId?: string | null;
+}
+
+interface Segment {
+  heading: string | null;
+  start: number;
+  headingWords: Set<string>;
+  words: Set<string>;
+  text: string; // lowercased, single-spaced
+}
+
+// Topics scoring below this are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 50;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'at', 'from', 'as', 'into', 'its', 'their', 'how',
+]);
+
+// Syllabus sections that describe the course rather than what is taught in it
+const ADMINISTRATIVE = /\b(grading|grades?|grade breakdown|textbooks?|required (materials|reading)|office hours|attendance|polic(y|ies)|prerequisites?|late (work|assignments|submissions)|academic (integrity|honesty)|accommodations?|contact|instructor|teaching assistants?|course (description|overview|information|schedule|topics)|learning (objectives|outcomes)|assessment methods)\b/i;
+
+// Share of the title found in its best section needed to count as "found"
+const TITLE_FOUND = 0.5;
+// Titles this similar to an earlier topic are flagged as possible duplicates
+const DUPLICATE_SIMILARITY = 0.75;
+
+const WEIGHTS = { title: 0.6, keywords: 0.4 };
+const ADMINISTRATIVE_FACTOR = 0.4;
+const DUPLICATE_FACTOR = 0.6;
+
+// Lowercase significant words with a light plural strip, so "Structures"
+// matches "structure"
+const toWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+// Titles often carry a "Week 3:" or "Unit 2 -" prefix that isn't in the body text
+const stripPrefix = (title: string): string =>
+  title.replace(/^(weeks?|module|unit|chapter|lecture|part|topic)\s*\d+(\s*[-–]\s*\d+)?\s*[:.\-–—]?\s*/i, '');
+
+const fraction = (words: string[], pool: Set<string>): number =>
+  words.length === 0 ? 0 : words.filter(word => pool.has(word)).length / words.length;
+
+const similarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setB].filter(word => setA.has(word)).length;
+  const jaccard = shared / new Set([...a, ...b]).size;
+  // Containment also counts for multi-word titles: "Binary Trees" inside
+  // "Binary Trees and Heaps" is a near-duplicate
+  const smaller = Math.min(setA.size, setB.size);
+  return smaller >= 2 ? Math.max(jaccard, (shared / smaller) * 0.8) : jaccard;
+};
+
+export class TopicGroundingScorer {
+  // Score every topic against the cleaned syllabus text (the Markdown-like
+  // output of SyllabusTextNormalizer), in list order
+  static scoreTopics(topics: GroundingInput[], syllabusText: string): TopicGrounding[] {
+    const segments = this.toSegments(syllabusText);
+    const documentWords = new Set(segments.flatMap(segment => [...segment.words]));
+    const contentSegments = segments.filter(segment => !segment.heading || !ADMINISTRATIVE.test(segment.heading));
+    const seenTitles: { id: string; title: string; words: string[] }[] = [];
+
+    return topics.map(topic => {
+      const titleWords = toWords(stripPrefix(topic.title));
+      const issues: string[] = [];
+
+      // Where in the text the topic comes from. Course content sections win
+      // over administrative ones (a course description mentions most topics).
+      const contentMatch = this.findBestSegment(topic.title, titleWords, contentSegments);
+      const match = contentMatch && contentMatch.score >= TITLE_FOUND
+        ? contentMatch
+        : this.findBestSegment(topic.title, titleWords, segments);
+      const titleScore = match?.score ?? 0;
+      if (titleScore < TITLE_FOUND) {
+        issues.push('Title not found in the syllabus');
+      }
+
+      // How many of its keywords occur in the text
+      const keywords = topic.keywords || [];
+      const foundKeywords = keywords.filter(keyword => {
+        const words = toWords(keyword);
+        return words.length > 0 && words.every(word => documentWords.has(word));
+      }).length;
+      const keywordScore = keywords.length > 0 ? foundKeywords / keywords.length : titleScore;
+      if (keywords.length > 0 && keywordScore < 0.5) {
+        issues.push(`Only ${foundKeywords} of ${keywords.length} keywords appear in the syllabus`);
+      }
+
+      let score = WEIGHTS.title * titleScore + WEIGHTS.keywords * keywordScore;
+
+      const heading = match?.segment.heading;
+      if (ADMINISTRATIVE.test(topic.title) || (heading && titleScore >= TITLE_FOUND && ADMINISTRATIVE.test(heading))) {
+        issues.push('Looks like course administration rather than course content');
+        score *= ADMINISTRATIVE_FACTOR;
+      }
+
+      // A subtopic echoing its own unit's title is expected, not a duplicate
+      const duplicate = seenTitles.find(seen =>
+        seen.id !== topic.parentId && similarity(seen.words, titleWords) >= DUPLICATE_SIMILARITY
+      );
+      if (duplicate) {
+        issues.push(`Possible duplicate of "${duplicate.title}"`);
+        score *= DUPLICATE_FACTOR;
+      }
+      seenTitles.push({ id: topic.id, title: topic.title, words: titleWords });
+
+      return {
+        confidence: Math.round(Math.min(1, Math.max(0, score)) * 100),
+        source: match && titleScore >= TITLE_FOUND
+          ? { heading: match.segment.heading, offset: match.segment.start }
+          : null,
+        issues,
+      };
+    });
+  }
+
+  // Overall confidence for a set of topics
+  static averageConfidence(groundings: TopicGrounding[]): number {
+    if (groundings.length === 0) return 0;
+    const total = groundings.reduce((sum, grounding) => sum + grounding.confidence, 0);
+    return Math.round(total / groundings.length);
+  }
+
+  // Section that best contains the title: a heading match beats a mention in
+  // the body, and an exact phrase counts fully
+  private static findBestSegment(
+    title: string,
+    titleWords: string[],
+    segments: Segment[]
+  ): { segment: Segment; score: number } | null {
+    const phrase = stripPrefix(title).toLowerCase().replace(/\s+/g, ' ').trim();
+    let best: { segment: Segment; score: number } | null = null;
+
+    for (const segment of segments) {
+      const score = phrase.length > 3 && segment.text.includes(phrase)
+        ? 1
+        : Math.max(fraction(titleWords, segment.headingWords), 0.9 * fraction(titleWords, segment.words));
+      if (!best || score > best.score) {
+        best = { segment, score };
+      }
+    }
+
+    return best;
+  }
+
+  // Split the text at Markdown headings, keeping each section's offset
+  private static toSegments(text: string): Segment[] {
+    const segments: Segment[] = [];
+    let current = { heading: null as string | null, start: 0, lines: [] as string[] };
+    let offset = 0;
+
+    const flush = () => {
+      const body = current.lines.join(' ');
+      const full = `${current.heading || ''} ${body}`;
+      if (full.trim()) {
+        segments.push({
+          heading: current.heading,
+          start: current.start,
+          headingWords: new Set(toWords(current.heading || '')),
+          words: new Set(toWords(full)),
+          text: full.toLowerCase().replace(/\s+/g, ' '),
+        });
+      }
+    };
+
+    text.split('\n').forEach(line => {
+      const heading = /^#{1,6}\s+(.+)$/.exec(line.trim());
+      if (heading) {
+        flush();
+        current = { heading: heading[1], start: offset, lines: [] };
+      } else {
+        current.lines.push(line);
+      }
+      offset += line.length + 1;
+    });
+    flush();
+
+    return segments;
+  }
+}
@@ -0,0 +1,96 @@
+// File: src/services/topics/topicMerge.ts
+import { Topic } from '../../types';
+import { ExtractedTopic } from '../openai/topicExtraction';
+import { getTitleWords, titleOverlap } from '../text/titleMatching';
+
+// One row of a topic save. Existing topics keep their id so quiz history,
+// review state and schedules linked to them survive the save.
+export interface TopicSaveEntry {
+  id: string | null; // existing topic to update; null inserts a new one
+  key: string; // the incoming topic's id, referenced by parentKey
+  parentKey: string | null;
+  title: string;
+  content: string;
+  keywords: string[];
+  learningObjectives: string[];
+  orderIndex: number;
+  weeks: { start: number; end: number } | null;
+}
+
+export interface TopicSavePlan {
+  entries: TopicSaveEntry[]; // in list order, parents before their subtopics
+  updated: number;
+  inserted: number;
+  deleted: number;
+}
+
+// Minimum title overlap for an incoming topic to take over an existing one
+const MATCH_OVERLAP = 0.5;
+
+// Match incoming topics to the course's existing ones, first by id (topics
+// loaded from the database) and then by similar title (a re-extracted
+// syllabus), and describe the rows to update, insert and delete. Topics are
+// numbered from firstOrderIndex, so a new material's topics can follow the
+// course's current ones.
+export const planTopicSave = (
+  existing: Topic[],
+  incoming: ExtractedTopic[],
+  firstOrderIndex = 1
+): TopicSavePlan => {
+  const existingById = new Map(existing.map(topic => [topic.id, topic]));
+  const matches = new Map<string, string>(); // incoming id -> existing id
+  const claimed = new Set<string>();
+
+  incoming.forEach(topic => {
+    if (existingById.has(topic.id) && !claimed.has(topic.id)) {
+      matches.set(topic.id, topic.id);
+      claimed.add(topic.id);
+    }
+  });
+
+  // Best remaining title match for each unmatched topic, in list order
+  const existingWords = existing.map(topic => ({ topic, words: getTitleWords(topic.title) }));
+  incoming.forEach(topic => {
+    if (matches.has(topic.id)) return;
+
+    const words = getTitleWords(topic.title);
+    let best: { id: string; overlap: number } | null = null;
+    for (const candidate of existingWords) {
+      if (claimed.has(candidate.topic.id)) continue;
+      const overlap = titleOverlap(words, candidate.words);
+      if (overlap >= MATCH_OVERLAP && (!best || overlap > best.overlap)) {
+        best = { id: candidate.topic.id, overlap };
+      }
+    }
+
+    if (best) {
+      matches.set(topic.id, best.id);
+      claimed.add(best.id);
+    }
+  });
+
+  const incomingIds = new Set(incoming.map(topic => topic.id));
+  const entries: TopicSaveEntry[] = incoming.map((topic, index) => {
+    const match = matches.get(topic.id);
+    return {
+      id: match ?? null,
+      key: topic.id,
+      parentKey: topic.parentId && incomingIds.has(topic.parentId) ? topic.parentId : null,
+      title: topic.title,
+      // A re-extracted topic has no notes of its own; keep the user's notes
+      content: topic.notes ?? (match ? existingById.get(match)!.content : ''),
+      keywords: topic.keywords || [],
+      learningObjectives: topic.learningObjectives || [],
+      orderIndex: firstOrderIndex + index,
+      weeks: topic.weeks ? { start: topic.weeks.start, end: topic.weeks.end } : null,
+    };
+  });
+
+  const updated = entries.filter(entry => entry.id !== null).length;
+  return {
+    entries,
+    updated,
+    inserted: entries.length - updated,
+    deleted: existing.length - claimed.size,
+  };
+};
@@ -0,0 +1,88 @@
+// File: src/services/topics/topicTree.ts
+
+// Topics are kept as a flat list in display order where a subtopic points at
+// its unit through parentId and always follows it. These helpers keep that
+// invariant while topics are indented, outdented and removed.
+
+export interface TopicTreeItem {
+  id: string;
+  parentId?: string | null;
+}
+
+// Units contain subtopics; subtopics don't nest any further
+export const MAX_TOPIC_DEPTH = 1;
+
+export const isSubtopic = (topic: TopicTreeItem): boolean => !!topic.parentId;
+
+// Ids of the topics directly under a unit
+export const getChildIds = <T extends TopicTreeItem>(topics: T[], parentId: string): string[] =>
+  topics.filter(topic => topic.parentId === parentId).map(topic => topic.id);
+
+// Outline numbers for display: "2" for a unit, "2.3" for its third subtopic
+export const getOutlineNumbers = <T extends TopicTreeItem>(topics: T[]): Map<string, string> => {
+  const numbers = new Map<string, string>();
+  const childCounts = new Map<string, number>();
+  let unitCount = 0;
+
+  topics.forEach(topic => {
+    const parentNumber = topic.parentId ? numbers.get(topic.parentId) : undefined;
+    if (topic.parentId && parentNumber) {
+      const position = (childCounts.get(topic.parentId) || 0) + 1;
+      childCounts.set(topic.parentId, position);
+      numbers.set(topic.id, `${parentNumber}.${position}`);
+    } else {
+      unitCount++;
+      numbers.set(topic.id, `${unitCount}`);
+    }
+  });
+
+  return numbers;
+};
+
+// Nearest unit above the topic at the given index
+const findPreviousUnit = <T extends TopicTreeItem>(topics: T[], index: number): T | undefined => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!topics[i].parentId) return topics[i];
+  }
+  return undefined;
+};
+
+export const canIndentTopic = <T extends TopicTreeItem>(topics: T[], topicId: string): boolean => {
+  const index = topics.findIndex(topic => topic.id === topicId);
+  return index > 0 && !topics[index].parentId && !!findPreviousUnit(topics, index);
+};
+
+export const canOutdentTopic = <T extends TopicTreeItem>(topics: T[], topicId: string): boolean =>
+  !!topics.find(topic => topic.id === topicId)?.parentId;
+
+// Make a unit a subtopic of the unit above it. Its own subtopics move along
+// with it, since subtopics can't nest.
+export const indentTopic = <T extends TopicTreeItem>(topics: T[], topicId: string): T[] => {
+  const index = topics.findIndex(topic => topic.id === topicId);
+  if (!canIndentTopic(topics, topicId)) return topics;
+
+  const newParent = findPreviousUnit(topics, index)!;
+  return topics.map(topic =>
+    topic.id === topicId || topic.parentId === topicId
+      ? { ...topic, parentId: newParent.id }
+      : topic
+  );
+};
+
+// Turn a subtopic into a unit. The subtopics that followed it under the same
+// unit become its own, so the list order doesn't change.
+export const outdentTopic = <T extends TopicTreeItem>(topics: T[], topicId: string): T[] => {
+  const index = topics.findIndex(topic => topic.id === topicId);
+  const oldParentId = topics[index]?.parentId;
+  if (!oldParentId) return topics;
+
+  return topics.map((topic, i) => {
+    if (i === index) return { ...topic, parentId: null };
+    if (i > index && topic.parentId === oldParentId) return { ...topic, parentId: topicId };
+    return topic;
+  });
+};
+
+// Remove a topic together with its subtopics
+export const removeTopicWithChildren = <T extends TopicTreeItem>(topics: T[], topicId: string): T[] =>
+  topics.filter(topic => topic.id !== topicId && topic.parentId !== topicId);
@@ -0,0 +1,96 @@
+import { useQuizStore } from '../quizStore';
+import { QuizService } from '../../services/supabase/quiz';
+import { AnswerGradingService } from '../../services/openai/answerGrading';
+import { Quiz, QuizAnswer } from '../../types';
+
+jest.mock('../../services/supabase/quiz', () => ({
+  QuizService: { submitQuizAnswers: jest.fn() },
+}));
+jest.mock('../../services/openai/answerGrading', () => ({
+  AnswerGradingService: { gradeShortAnswers: jest.fn() },
+}));
+jest.mock('../../services/supabase/review', () => ({
+  ReviewService: {
+    getReviewStatesForCourse: jest.fn(async () => ({ data: [], error: null, success: true })),
+    saveReviewStates: jest.fn(async () => ({ data: [], error: null, success: true })),
+  },
+}));
+jest.mock('../../services/supabase/mastery', () => ({
+  MasteryService: {
+    getMasteryForCourse: jest.fn(async () => ({ data: [], error: null, success: true })),
+    saveMastery: jest.fn(async () => ({ data: [], error: null, success: true })),
+  },
+}));
+jest.mock('../../services/supabase/topic', () => ({ TopicService: {} }));
+jest.mock('../../services/supabase/material', () => ({ CourseMaterialService: {} }));
+jest.mock('../../services/supabase/studySchedule', () => ({ StudyScheduleService: {} }));
+jest.mock('../../services/openai/quizGeneration', () => ({ QuizGenerationService: {} }));
+
+const submitQuizAnswers = QuizService.submitQuizAnswers as jest.Mock;
+const gradeShortAnswers = AnswerGradingService.gradeShortAnswers as jest.Mock;
+
+// A quiz scheduled for tomorrow's study slot, so upcoming rather than due
+const upcomingQuiz: Quiz = {
+  id: 'quiz-1',
+  courseId: 'course-1',
+  title: 'Biology Quiz',
+  scheduledFor: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  questions: [
+    {
+      id: 'question-1',
+      type: 'short_answer',
+      question: 'What does the mitochondrion do?',
+      difficulty: 'medium',
+      topic: 'Cells',
+      topicId: 'topic-1',
+      rubric: 'Produces ATP through cellular respiration',
+      sampleAnswer: 'It makes ATP for the cell.',
+    },
+  ],
+};
+
+const answers: QuizAnswer[] = [
+  { questionId: 'question-1', response: { type: 'short_answer', text: 'It produces ATP' }, timeSpent: 20 },
+];
+
+describe('useQuizStore.submitQuiz', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useQuizStore.getState().resetStore();
+  });
+
+  it('grades the short answers of a quiz that is not due yet', async () => {
+    const grades = new Map([['question-1', { score: 1, correct: true, feedback: 'Mentions ATP' }]]);
+    gradeShortAnswers.mockResolvedValue({ success: true, grades });
+    submitQuizAnswers.mockResolvedValue({
+      data: { ...upcomingQuiz, completedAt: new Date().toISOString(), score: 100 },
+      error: null,
+      success: true,
+    });
+    useQuizStore.setState({ upcomingQuizzes: [upcomingQuiz] });
+
+    const completed = await useQuizStore.getState().submitQuiz(upcomingQuiz, answers);
+
+    expect(gradeShortAnswers).toHaveBeenCalledWith([
+      { question: upcomingQuiz.questions[0], text: 'It produces ATP' },
+    ]);
+    expect(submitQuizAnswers).toHaveBeenCalledWith('quiz-1', answers, grades);
+    expect(completed?.score).toBe(100);
+    expect(useQuizStore.getState().upcomingQuizzes).toEqual([]);
+    expect(useQuizStore.getState().isSubmitting).toBe(false);
+  });
+
+  it('keeps the error when the submit fails', async () => {
+    gradeShortAnswers.mockResolvedValue({ success: true, grades: new Map() });
+    submitQuizAnswers.mockResolvedValue({
+      data: null,
+      error: { message: 'Quiz has already been submitted' },
+      success: false,
+    });
+
+    const completed = await useQuizStore.getState().submitQuiz(upcomingQuiz, answers);
+
+    expect(completed).toBeNull();
+    expect(useQuizStore.getState().error).toBe('Quiz has already been submitted');
+  });
+});
@@ -1,8 +1,10 @@
 import { create } from 'zustand';
-import { Course, Topic } from '../types';
+import { Course, CourseMaterial, NewCourseMaterial, Topic } from '../types';
 import { CourseService } from '../services/supabase/course';
 import { TopicService } from '../services/supabase/topic';
-import { ExtractedTopic } from '../services/openai/topicExtraction';
+import { CourseMaterialService } from '../services/supabase/material';
+import { ExtractedSchedule, ExtractedTopic } from '../services/openai/topicExtraction';
+import { removeTopicWithChildren } from '../services/topics/topicTree';
 
 interface CourseState {
   // Course state
@@ -15,6 +17,9 @@ interface CourseState {
   topics: Topic[];
   isLoadingTopics: boolean;
   topicError: string | null;
+
+  // Material state (documents uploaded to the course whose topics are loaded)
+  materials: CourseMaterial[];
 }
 
 interface CourseActions {
@@ -27,10 +32,14 @@ interface CourseActions {
   
   // Topic operations
   fetchTopicsForCourse: (courseId: string) => Promise<void>;
-  saveTopicsForCourse: (courseId: string, topics: ExtractedTopic[]) => Promise<boolean>;
-  createTopic: (courseId: string, topicData: Pick<Topic, 'title' | 'content' | 'orderIndex'>) => Promise<boolean>;
-  updateTopic: (topicId: string, updates: Partial<Pick<Topic, 'title' | 'content' | 'orderIndex'>>) => Promise<boolean>;
+  saveTopicsForCourse: (courseId: string, topics: ExtractedTopic[], schedule?: ExtractedSchedule, material?: NewCourseMaterial) => Promise<boolean>;
+  createTopic: (courseId: string, topicData: Pick<Topic, 'title' | 'content' | 'orderIndex'> & Partial<Pick<Topic, 'keywords' | 'parentId' | 'learningObjectives'>>) => Promise<boolean>;
+  updateTopic: (topicId: string, updates: Partial<Pick<Topic, 'title' | 'content' | 'keywords' | 'orderIndex' | 'parentId' | 'learningObjectives'>>) => Promise<boolean>;
   deleteTopic: (topicId: string) => Promise<boolean>;
+
+  // Material operations
+  fetchMaterialsForCourse: (courseId: string) => Promise<void>;
+  deleteMaterial: (materialId: string) => Promise<boolean>;
   
   // UI state management
   setSelectedCourse: (course: Course | null) => void;
@@ -56,6 +65,7 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
   topics: [],
   isLoadingTopics: false,
   topicError: null,
+  materials: [],
 
   // ========================================
   // UI STATE ACTIONS
@@ -71,7 +81,8 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
   resetTopics: () => set({ 
     topics: [], 
     isLoadingTopics: false, 
-    topicError: null 
+    topicError: null,
+    materials: [],
   }),
   
   resetStore: () => set({
@@ -82,6 +93,7 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
     topics: [],
     isLoadingTopics: false,
     topicError: null,
+    materials: [],
   }),
 
   // ========================================
@@ -288,17 +300,40 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
     }
   },
 
-  // Save topics for a course (replaces existing)
-  saveTopicsForCourse: async (courseId, extractedTopics) => {
+  // Save topics for a course, or the topics extracted from a new material
+  saveTopicsForCourse: async (courseId, extractedTopics, extractedSchedule, material) => {
     set({ isLoadingTopics: true, topicError: null });
     
     try {
-      const response = await TopicService.saveTopicsForCourse(courseId, extractedTopics);
+      const response = await TopicService.saveTopicsForCourse(courseId, extractedTopics, extractedSchedule, material);
       
       if (response.success && response.data) {
-        // Update local topics state
+        const { topics, schedule, material: savedMaterial } = response.data;
+
+        // Keep the original syllabus so it can be viewed from the course; the
+        // topics are saved either way
+        let syllabusUrl: string | null | undefined;
+        if (material?.kind === 'syllabus' && material.fileUri) {
+          const uploadResponse = await CourseService.uploadSyllabus(courseId, {
+            uri: material.fileUri,
+            name: material.title,
+            type: material.fileType,
+          });
+          if (uploadResponse.success && uploadResponse.data) {
+            syllabusUrl = uploadResponse.data.syllabusUrl;
+          } else {
+            console.error('Upload syllabus error:', uploadResponse.error);
+          }
+        }
+
+        // Update local topics state (the save returns every topic of the course);
+        // a re-uploaded material replaces its old entry
+        const materials = get().materials.filter(existing =>
+          existing.courseId === courseId && existing.id !== savedMaterial?.id
+        );
         set({ 
-          topics: response.data, 
+          topics, 
+          materials: savedMaterial ? [...materials, savedMaterial] : materials,
           isLoadingTopics: false, 
           topicError: null 
         });
@@ -307,14 +342,26 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
         const courses = get().courses;
         const updatedCourses = courses.map(course => 
           course.id === courseId 
-            ? { ...course, topicsExtracted: true, updatedAt: new Date().toISOString() }
+            ? {
+              ...course,
+              topicsExtracted: true,
+              schedule,
+              ...(syllabusUrl !== undefined ? { syllabusUrl } : {}),
+              updatedAt: new Date().toISOString(),
+            }
             : course
         );
         
         // Update selected course too
         const selectedCourse = get().selectedCourse;
         const updatedSelectedCourse = selectedCourse?.id === courseId 
-          ? { ...selectedCourse, topicsExtracted: true, updatedAt: new Date().toISOString() }
+          ? {
+            ...selectedCourse,
+            topicsExtracted: true,
+            schedule,
+            ...(syllabusUrl !== undefined ? { syllabusUrl } : {}),
+            updatedAt: new Date().toISOString(),
+          }
           : selectedCourse;
         
         set({ 
@@ -416,8 +463,8 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
       const response = await TopicService.deleteTopic(topicId);
       
       if (response.success) {
-        // Remove topic from local state
-        const updatedTopics = get().topics.filter(topic => topic.id !== topicId);
+        // Remove topic (and the subtopics the database cascaded) from local state
+        const updatedTopics = removeTopicWithChildren(get().topics, topicId);
         set({ 
           topics: updatedTopics, 
           isLoadingTopics: false, 
@@ -440,4 +487,66 @@ export const useCourseStore = create<CourseStore>((set, get) => ({
       return false;
     }
   },
+
+  // ========================================
+  // MATERIAL OPERATIONS
+  // ========================================
+
+  // Fetch the materials uploaded to a course
+  fetchMaterialsForCourse: async (courseId) => {
+    try {
+      const response = await CourseMaterialService.getMaterialsForCourse(courseId);
+      
+      if (response.success && response.data) {
+        set({ materials: response.data });
+      } else {
+        set({ 
+          materials: [], 
+          topicError: response.error?.message || 'Failed to fetch course materials' 
+        });
+      }
+    } catch (error: any) {
+      console.error('Fetch materials error:', error);
+      set({ 
+        materials: [], 
+        topicError: 'Network error - please check your connection' 
+      });
+    }
+  },
+
+  // Delete a material together with the topics extracted from it
+  deleteMaterial: async (materialId) => {
+    set({ isLoadingTopics: true, topicError: null });
+    
+    try {
+      const response = await CourseMaterialService.deleteMaterial(materialId);
+      
+      if (response.success) {
+        // Remove the material's topics (and the subtopics the database cascaded)
+        const updatedTopics = get().topics
+          .filter(topic => topic.materialId === materialId)
+          .reduce((remaining, topic) => removeTopicWithChildren(remaining, topic.id), get().topics);
+        set({ 
+          materials: get().materials.filter(material => material.id !== materialId),
+          topics: updatedTopics, 
+          isLoadingTopics: false, 
+          topicError: null 
+        });
+        return true;
+      } else {
+        set({ 
+          isLoadingTopics: false, 
+          topicError: response.error?.message || 'Failed to delete material' 
+        });
+        return false;
+      }
+    } catch (error: any) {
+      console.error('Delete material error:', error);
+      set({ 
+        isLoadingTopics: false, 
+        topicError: 'Network error - please check your connection' 
+      });
+      return false;
+    }
+  },
 }));
\ No newline at end of file
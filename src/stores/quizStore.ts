@@ -0,0 +1,377 @@
+import { create } from 'zustand';
+import { Course, Quiz, QuizAnswer } from '../types';
+import { QuizService } from '../services/supabase/quiz';
+import { TopicService } from '../services/supabase/topic';
+import { CourseMaterialService } from '../services/supabase/material';
+import { ReviewService } from '../services/supabase/review';
+import { MasteryService } from '../services/supabase/mastery';
+import { QuizGenerationService } from '../services/openai/quizGeneration';
+import { AnswerGradingService, ShortAnswerSubmission } from '../services/openai/answerGrading';
+import { SpacedRepetitionScheduler } from '../services/scheduling/spacedRepetition';
+import { AdaptiveDifficulty } from '../services/scheduling/adaptiveDifficulty';
+import { PacingEngine } from '../services/scheduling/pacing';
+import { CourseCalendar } from '../services/scheduling/courseCalendar';
+import { StudyScheduleGenerator } from '../services/scheduling/studySchedule';
+import { StudyScheduleService } from '../services/supabase/studySchedule';
+import { DEFAULT_STUDY_SCHEDULE } from '../schemas/studyScheduleSchema';
+
+// Topics covered by a single quiz session
+const TOPICS_PER_SESSION = 5;
+
+interface QuizState {
+  dueQuizzes: Quiz[];
+  upcomingQuizzes: Quiz[]; // scheduled for a later study slot; can be taken early
+  isLoading: boolean;
+  isGenerating: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+}
+
+interface QuizActions {
+  // Quiz operations
+  fetchDueQuizzes: () => Promise<void>;
+  fetchUpcomingQuizzes: () => Promise<void>;
+  generateQuizForCourse: (course: Course) => Promise<Quiz | null>;
+  submitQuiz: (quiz: Quiz, answers: QuizAnswer[]) => Promise<Quiz | null>;
+  deleteQuiz: (quizId: string) => Promise<boolean>;
+
+  // UI state management
+  clearError: () => void;
+  resetStore: () => void;
+}
+
+interface QuizStore extends QuizState, QuizActions {}
+
+// Feed a completed quiz into the topics' spaced-repetition history. Failures
+// are logged only: the quiz itself is already saved.
+const updateReviewStates = async (quiz: Quiz) => {
+  try {
+    const existing = await ReviewService.getReviewStatesForCourse(quiz.courseId);
+    if (!existing.success) {
+      console.error('Load review states error:', existing.error);
+      return;
+    }
+
+    const updated = SpacedRepetitionScheduler.applyQuizResults(
+      existing.data || [],
+      quiz.questions,
+      new Date()
+    );
+    const saved = await ReviewService.saveReviewStates(quiz.courseId, updated);
+    if (!saved.success) {
+      console.error('Save review states error:', saved.error);
+    }
+  } catch (error: any) {
+    console.error('Update review states error:', error);
+  }
+};
+
+// When a new quiz for the course comes due: the next slot of its study
+// schedule (or the default one) that no pending quiz of the course holds.
+// After the course's last slot, or if the lookups fail, it is due now.
+const findQuizSlot = async (course: Course, now: Date): Promise<string> => {
+  const [scheduleResponse, quizzesResponse] = await Promise.all([
+    StudyScheduleService.getScheduleForCourse(course.id),
+    QuizService.getQuizzesForCourse(course.id),
+  ]);
+  if (!scheduleResponse.success || !quizzesResponse.success) {
+    console.error('Load quiz schedule error:', scheduleResponse.error || quizzesResponse.error);
+    return now.toISOString();
+  }
+
+  const taken = (quizzesResponse.data || [])
+    .filter(quiz => !quiz.completedAt)
+    .map(quiz => quiz.scheduledFor);
+  return StudyScheduleGenerator.getNextSlot(scheduleResponse.data ?? DEFAULT_STUDY_SCHEDULE, course.endDate, now, taken)
+    ?? now.toISOString();
+};
+
+// Update the topics' mastery estimates from a completed quiz. Like review
+// states, failures are only logged.
+const updateMastery = async (quiz: Quiz) => {
+  try {
+    const existing = await MasteryService.getMasteryForCourse(quiz.courseId);
+    if (!existing.success) {
+      console.error('Load topic mastery error:', existing.error);
+      return;
+    }
+
+    const updated = AdaptiveDifficulty.applyQuizResults(existing.data || [], quiz.questions, new Date());
+    const saved = await MasteryService.saveMastery(quiz.courseId, updated);
+    if (!saved.success) {
+      console.error('Save topic mastery error:', saved.error);
+    }
+  } catch (error: any) {
+    console.error('Update topic mastery error:', error);
+  }
+};
+
+// Have the model grade the quiz's short answers. If it can't, they are
+// submitted ungraded rather than holding up the rest of the quiz.
+const gradeShortAnswers = async (quiz: Quiz, answers: QuizAnswer[]) => {
+  const answersById = new Map(answers.map(answer => [answer.questionId, answer]));
+  const submissions: ShortAnswerSubmission[] = [];
+  quiz.questions.forEach(question => {
+    const response = answersById.get(question.id)?.response ?? null;
+    if (question.type === 'short_answer' && response?.type === 'short_answer' && response.text.trim()) {
+      submissions.push({ question, text: response.text });
+    }
+  });
+
+  const grading = await AnswerGradingService.gradeShortAnswers(submissions);
+  if (!grading.success) {
+    console.error('Grade short answers error:', grading.error);
+  }
+  return grading.grades;
+};
+
+export const useQuizStore = create<QuizStore>((set, get) => ({
+  // Initial state
+  dueQuizzes: [],
+  upcomingQuizzes: [],
+  isLoading: false,
+  isGenerating: false,
+  isSubmitting: false,
+  error: null,
+
+  // ========================================
+  // UI STATE ACTIONS
+  // ========================================
+
+  clearError: () => set({ error: null }),
+
+  resetStore: () => set({
+    dueQuizzes: [],
+    upcomingQuizzes: [],
+    isLoading: false,
+    isGenerating: false,
+    isSubmitting: false,
+    error: null,
+  }),
+
+  // ========================================
+  // QUIZ OPERATIONS
+  // ========================================
+
+  // Fetch quizzes that are due now across all courses
+  fetchDueQuizzes: async () => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await QuizService.getDueQuizzes();
+
+      if (response.success && response.data) {
+        set({
+          dueQuizzes: response.data,
+          isLoading: false,
+          error: null
+        });
+      } else {
+        set({
+          dueQuizzes: [],
+          isLoading: false,
+          error: response.error?.message || 'Failed to fetch quizzes'
+        });
+      }
+    } catch (error: any) {
+      console.error('Fetch due quizzes error:', error);
+      set({
+        dueQuizzes: [],
+        isLoading: false,
+        error: 'Network error - please check your connection'
+      });
+    }
+  },
+
+  // Fetch quizzes scheduled for later study slots across all courses
+  fetchUpcomingQuizzes: async () => {
+    try {
+      const response = await QuizService.getUpcomingQuizzes();
+
+      if (response.success && response.data) {
+        set({ upcomingQuizzes: response.data });
+      } else {
+        set({
+          upcomingQuizzes: [],
+          error: response.error?.message || 'Failed to fetch quizzes'
+        });
+      }
+    } catch (error: any) {
+      console.error('Fetch upcoming quizzes error:', error);
+      set({
+        upcomingQuizzes: [],
+        error: 'Network error - please check your connection'
+      });
+    }
+  },
+
+  // Generate questions from the course topics and save them as a quiz due at
+  // the next free study slot
+  generateQuizForCourse: async (course) => {
+    set({ isGenerating: true, error: null });
+
+    try {
+      const topicsResponse = await TopicService.getTopicsForCourse(course.id);
+      if (!topicsResponse.success || !topicsResponse.data) {
+        set({
+          isGenerating: false,
+          error: topicsResponse.error?.message || 'Failed to load course topics'
+        });
+        return null;
+      }
+
+      // Cover the topics spaced repetition says are due (missing history just
+      // means every topic is treated as new). Near exams from the syllabus
+      // schedule the pacing engine pulls upcoming reviews forward, and topics
+      // the class hasn't reached yet are left out.
+      const now = new Date();
+      const reviewResponse = await ReviewService.getReviewStatesForCourse(course.id);
+      const reviewStates = reviewResponse.data || [];
+      const pacing = PacingEngine.computePacing({
+        course,
+        topics: topicsResponse.data,
+        reviewStates,
+        examDates: CourseCalendar.getExamDates(course),
+        now,
+      });
+      const sessionTopics = SpacedRepetitionScheduler.selectTopicsForSession(
+        CourseCalendar.getRelevantTopics(course, topicsResponse.data, now),
+        reviewStates,
+        new Date(now.getTime() + pacing.reviewLookaheadDays * 24 * 60 * 60 * 1000),
+        TOPICS_PER_SESSION
+      );
+
+      // Ground the questions in the course's uploaded material; without it
+      // (older courses, or a failed load) they come from the topics alone
+      const passagesResponse = await CourseMaterialService.getPassagesForCourse(course.id);
+      if (!passagesResponse.success) {
+        console.error('Load passages error:', passagesResponse.error);
+      }
+
+      // Pitch each topic's questions at the difficulty its mastery estimate
+      // says will be answered right about 80% of the time; topics without
+      // answers yet start easy. Without estimates the difficulties are mixed.
+      const quizTopics = sessionTopics.length > 0 ? sessionTopics : topicsResponse.data;
+      const masteryResponse = await MasteryService.getMasteryForCourse(course.id);
+      if (!masteryResponse.success) {
+        console.error('Load topic mastery error:', masteryResponse.error);
+      }
+
+      const generation = await QuizGenerationService.generateQuestions(quizTopics, {
+        passages: passagesResponse.data || [],
+        topicDifficulties: masteryResponse.success
+          ? AdaptiveDifficulty.selectDifficulties(quizTopics, masteryResponse.data || [])
+          : undefined,
+      });
+      if (!generation.success) {
+        set({
+          isGenerating: false,
+          error: generation.error || 'Failed to generate quiz'
+        });
+        return null;
+      }
+
+      const response = await QuizService.createQuiz(course.id, {
+        title: `${course.name} Quiz`,
+        scheduledFor: await findQuizSlot(course, now),
+        questions: generation.questions,
+      });
+
+      if (response.success && response.data) {
+        // A quiz scheduled for later joins the due list when fetched after its slot
+        const quiz = response.data;
+        const isDue = new Date(quiz.scheduledFor).getTime() <= Date.now();
+        set({
+          dueQuizzes: isDue ? [...get().dueQuizzes, quiz] : get().dueQuizzes,
+          upcomingQuizzes: isDue
+            ? get().upcomingQuizzes
+            : [...get().upcomingQuizzes, quiz].sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor)),
+          isGenerating: false,
+          error: null
+        });
+        return response.data;
+      } else {
+        set({
+          isGenerating: false,
+          error: response.error?.message || 'Failed to save quiz'
+        });
+        return null;
+      }
+    } catch (error: any) {
+      console.error('Generate quiz error:', error);
+      set({
+        isGenerating: false,
+        error: 'Network error - please check your connection'
+      });
+      return null;
+    }
+  },
+
+  // Submit answers and remove the quiz from the quiz lists. Takes the quiz
+  // being taken, which may be an upcoming one taken early.
+  submitQuiz: async (quiz, answers) => {
+    set({ isSubmitting: true, error: null });
+
+    try {
+      const modelGrades = await gradeShortAnswers(quiz, answers);
+      const response = await QuizService.submitQuizAnswers(quiz.id, answers, modelGrades);
+
+      if (response.success && response.data) {
+        await Promise.all([updateReviewStates(response.data), updateMastery(response.data)]);
+
+        set({
+          dueQuizzes: get().dueQuizzes.filter(dueQuiz => dueQuiz.id !== quiz.id),
+          upcomingQuizzes: get().upcomingQuizzes.filter(upcomingQuiz => upcomingQuiz.id !== quiz.id),
+          isSubmitting: false,
+          error: null
+        });
+        return response.data;
+      } else {
+        set({
+          isSubmitting: false,
+          error: response.error?.message || 'Failed to submit quiz'
+        });
+        return null;
+      }
+    } catch (error: any) {
+      console.error('Submit quiz error:', error);
+      set({
+        isSubmitting: false,
+        error: 'Network error - please check your connection'
+      });
+      return null;
+    }
+  },
+
+  // Delete a quiz
+  deleteQuiz: async (quizId) => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await QuizService.deleteQuiz(quizId);
+
+      if (response.success) {
+        set({
+          dueQuizzes: get().dueQuizzes.filter(quiz => quiz.id !== quizId),
+          upcomingQuizzes: get().upcomingQuizzes.filter(quiz => quiz.id !== quizId),
+          isLoading: false,
+          error: null
+        });
+        return true;
+      } else {
+        set({
+          isLoading: false,
+          error: response.error?.message || 'Failed to delete quiz'
+        });
+        return false;
+      }
+    } catch (error: any) {
+      console.error('Delete quiz error:', error);
+      set({
+        isLoading: false,
+        error: 'Network error - please check your connection'
+      });
+      return false;
+    }
+  },
+}));
@@ -22,34 +22,196 @@ export interface User {
     name: string;
     endDate: string;
     description?: string;        
-    syllabusUrl?: string;
+    syllabusUrl?: string | null; // Storage path of the uploaded syllabus (see CourseService.uploadSyllabus)
     topicsExtracted: boolean;    
+    schedule?: CourseSchedule | null; // dated plan extracted from the syllabus
     createdAt: string;
     updatedAt: string;         
   }
+
+  // Course Schedule Types
+  export type AssessmentType = 'exam' | 'midterm' | 'final' | 'quiz' | 'assignment' | 'project' | 'other';
+
+  export interface Assessment {
+    title: string;
+    type: AssessmentType;
+    date: string | null; // YYYY-MM-DD when the syllabus gives one
+    week: number | null; // course week, used when there is no date
+  }
+
+  export interface TopicWeeks {
+    topicId: string;
+    startWeek: number; // 1-based course weeks, inclusive
+    endWeek: number;
+  }
+
+  export interface CourseSchedule {
+    startDate: string | null; // first day of week 1 (YYYY-MM-DD); null = Course.createdAt
+    topicWeeks: TopicWeeks[];
+    assessments: Assessment[];
+  }
+
+  // Course Material Types
+  export type MaterialKind = 'syllabus' | 'lecture_notes' | 'slides' | 'reading' | 'other';
+
+  // A document uploaded to a course; topics extracted from it point back here
+  export interface CourseMaterial {
+    id: string;
+    courseId: string;
+    userId: string;
+    title: string; // file name
+    kind: MaterialKind;
+    fileType: string; // MIME type
+    fileSize: number | null; // bytes
+    createdAt: string;
+  }
+
+  // A material about to be saved, with the passages split from its text
+  export interface NewCourseMaterial extends Pick<CourseMaterial, 'title' | 'kind' | 'fileType' | 'fileSize'> {
+    passages: PassageDraft[];
+    fileUri?: string; // local copy of the file; a syllabus is uploaded to Storage once saved
+  }
+
+  // A section of a material's text, used to ground and cite quiz questions
+  export interface CoursePassage {
+    id: string;
+    courseId: string;
+    materialId: string;
+    materialTitle?: string; // joined from the material when loaded
+    position: number; // order within the material
+    heading: string | null; // heading of the section the passage is in
+    content: string;
+  }
+
+  export type PassageDraft = Pick<CoursePassage, 'position' | 'heading' | 'content'>;
+
+  // Study Schedule Types
+  export type QuizFrequency = 'daily' | 'every_other_day' | 'weekly';
+
+  export interface StudySchedule {
+    id: string;
+    userId: string;
+    courseId: string | null; // null = the user's default for all courses
+    studyDays: number[]; // 0 = Sunday ... 6 = Saturday
+    preferredTime: string; // 24-hour "HH:MM", local time
+    quizFrequency: QuizFrequency;
+    createdAt: string;
+    updatedAt: string;
+  }
+
   // Topic Types
   export interface Topic {
     id: string;
     courseId: string;
     title: string;
-    content: string;
+    content: string; // free-form notes
+    keywords: string[];
     orderIndex: number;
+    parentId: string | null; // unit this subtopic belongs to; null for units
+    learningObjectives: string[];
+    materialId: string | null; // material the topic was extracted from; null if added by hand
     createdAt: string;
   }
   
 
   
   // Quiz Types
-  export interface QuizQuestion {
+  export type QuestionType =
+    | 'multiple_choice'
+    | 'true_false'
+    | 'multi_select'
+    | 'fill_blank'
+    | 'ordering'
+    | 'matching'
+    | 'short_answer';
+
+  interface QuestionBase {
     id: string;
     question: string;
-    options: string[];
-    correctAnswer: number; // index of correct option
     explanation?: string;
     difficulty: 'easy' | 'medium' | 'hard';
     topic: string;
+    topicId?: string; // source Topic the question was generated from
+    source?: QuestionSource; // course passage the question is based on
+    response?: QuestionResponse; // set once the quiz has been taken
+    grade?: QuestionGrade; // set once the quiz has been taken
+    timeSpent?: number; // seconds spent on this question
+  }
+
+  export interface MultipleChoiceQuestion extends QuestionBase {
+    type: 'multiple_choice';
+    options: string[];
+    correctAnswer: number; // index of correct option
+  }
+
+  export interface TrueFalseQuestion extends QuestionBase {
+    type: 'true_false';
+    correctAnswer: boolean;
+  }
+
+  export interface MultiSelectQuestion extends QuestionBase {
+    type: 'multi_select';
+    options: string[];
+    correctAnswers: number[]; // indexes of every correct option
+  }
+
+  export interface FillBlankQuestion extends QuestionBase {
+    type: 'fill_blank'; // the question text marks the blank with ___
+    acceptedAnswers: string[];
+  }
+
+  export interface OrderingQuestion extends QuestionBase {
+    type: 'ordering';
+    items: string[]; // in the order they are shown
+    correctOrder: number[]; // item indexes, first to last
+  }
+
+  export interface MatchingQuestion extends QuestionBase {
+    type: 'matching';
+    prompts: string[];
+    choices: string[]; // in the order they are shown
+    correctMatches: number[]; // choice index for each prompt
+  }
+
+  export interface ShortAnswerQuestion extends QuestionBase {
+    type: 'short_answer';
+    rubric: string; // what a full-credit answer must contain
+    sampleAnswer: string;
+  }
+
+  export type QuizQuestion =
+    | MultipleChoiceQuestion
+    | TrueFalseQuestion
+    | MultiSelectQuestion
+    | FillBlankQuestion
+    | OrderingQuestion
+    | MatchingQuestion
+    | ShortAnswerQuestion;
+
+  // What the user answered, shaped by the question type
+  export type QuestionResponse =
+    | { type: 'multiple_choice'; selected: number }
+    | { type: 'true_false'; value: boolean }
+    | { type: 'multi_select'; selected: number[] }
+    | { type: 'fill_blank'; text: string }
+    | { type: 'ordering'; order: number[] } // item indexes, first to last
+    | { type: 'matching'; matches: number[] } // choice index for each prompt, -1 if unmatched
+    | { type: 'short_answer'; text: string };
+
+  export interface QuestionGrade {
+    score: number; // 0-1; partial credit where the type allows it
+    correct: boolean;
+    feedback?: string; // explanation from the short answer grader
   }
   
+  // Citation kept with the question, so it still reads if the material is removed
+  export interface QuestionSource {
+    passageId: string;
+    materialTitle: string | null;
+    heading: string | null;
+    excerpt: string;
+  }
+
   export interface Quiz {
     id: string;
     courseId: string;
@@ -60,6 +222,31 @@ export interface User {
     score?: number;
     timeSpent?: number;
   }
+
+  export interface QuizAnswer {
+    questionId: string;
+    response: QuestionResponse | null; // null when skipped
+    timeSpent: number; // seconds
+  }
+
+  // Spaced Repetition Types
+  export interface ReviewState {
+    itemId: string; // topic (or question) being scheduled
+    easeFactor: number;
+    interval: number; // days until next review
+    repetitions: number; // consecutive successful reviews
+    lapses: number; // times the item was forgotten
+    dueDate: string;
+    lastReviewedAt?: string;
+  }
+
+  // Adaptive Difficulty Types
+  export interface TopicMastery {
+    topicId: string;
+    ability: number; // logit scale; 0 = even odds on a medium question
+    answerCount: number; // graded answers the estimate is based on
+    updatedAt: string;
+  }
   
   // API Response Types
   export interface ApiResponse<T> {
@@ -0,0 +1,210 @@
+// File: supabase/functions/ai-proxy/index.ts
+// Supabase Edge Function (Deno) that keeps the OpenAI key on the server.
+// The app sends chat messages for a known task; the function checks the
+// caller's Supabase JWT, enforces a per-user daily quota and forwards the
+// request to OpenAI with server-side limits on model and tokens.
+//
+// Secrets: OPENAI_API_KEY (required), OPENAI_MODEL, AI_TOPIC_DAILY_LIMIT,
+// AI_QUIZ_DAILY_LIMIT, AI_GRADING_DAILY_LIMIT. SUPABASE_URL, SUPABASE_ANON_KEY and
+// SUPABASE_SERVICE_ROLE_KEY are provided by the platform.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+interface TaskPolicy {
+  dailyRequests: number;
+  maxTokens: number;
+}
+
+interface ProxyRequest {
+  task: string;
+  messages: { role: string; content: string }[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean;
+}
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+const MODEL = Deno.env.get('OPENAI_MODEL') ?? 'gpt-3.5-turbo';
+const MAX_PROMPT_CHARS = 40000;
+// Longest wait for OpenAI before giving up on a request
+const UPSTREAM_TIMEOUT_MS = 60000;
+const ALLOWED_ROLES = new Set(['system', 'user', 'assistant']);
+
+// Long syllabi are extracted in several chunks, so extraction gets more requests
+const TASK_POLICIES: { [task: string]: TaskPolicy } = {
+  topic_extraction: {
+    dailyRequests: Number(Deno.env.get('AI_TOPIC_DAILY_LIMIT') ?? 100),
+    maxTokens: 2000,
+  },
+  quiz_generation: {
+    dailyRequests: Number(Deno.env.get('AI_QUIZ_DAILY_LIMIT') ?? 40),
+    maxTokens: 3000,
+  },
+  // One request grades every short answer of a quiz
+  answer_grading: {
+    dailyRequests: Number(Deno.env.get('AI_GRADING_DAILY_LIMIT') ?? 40),
+    maxTokens: 1500,
+  },
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+
+// `code` lets the app tell errors apart without matching on the message
+const errorResponse = (message: string, status: number, headers: Record<string, string> = {}, code?: string) =>
+  jsonResponse({ error: { message, code } }, status, headers);
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Reject anything that isn't a well-formed request for a known task
+const validateRequest = (body: any): ProxyRequest | string => {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  if (!TASK_POLICIES[body.task]) return `Unknown task: ${body.task}`;
+  if (!Array.isArray(body.messages) || body.messages.length === 0) return 'messages must be a non-empty array';
+
+  let promptChars = 0;
+  for (const message of body.messages) {
+    if (!message || !ALLOWED_ROLES.has(message.role) || typeof message.content !== 'string') {
+      return 'Each message needs a role and string content';
+    }
+    promptChars += message.content.length;
+  }
+  if (promptChars > MAX_PROMPT_CHARS) return `Prompt exceeds ${MAX_PROMPT_CHARS} characters`;
+
+  return body as ProxyRequest;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const openAIKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openAIKey) {
+    return errorResponse('AI proxy is not configured', 500);
+  }
+
+  // Verify the caller's Supabase session
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return errorResponse('Missing authorization token', 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return errorResponse('Invalid or expired session', 401);
+  }
+
+  const body = await req.json().catch(() => null);
+  const request = validateRequest(body);
+  if (typeof request === 'string') {
+    return errorResponse(request, 400);
+  }
+
+  // Per-user daily quota for the task
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const policy = TASK_POLICIES[request.task];
+  const now = new Date();
+  const dayStart = startOfUtcDay(now);
+
+  // Reserve the request before forwarding it, so concurrent requests can't
+  // overrun the quota (see reserve_ai_usage)
+  const { data: usageId, error: reserveError } = await adminClient.rpc('reserve_ai_usage', {
+    p_user_id: user.id,
+    p_task: request.task,
+    p_daily_limit: policy.dailyRequests,
+    p_prompt_chars: request.messages.reduce((sum, message) => sum + message.content.length, 0),
+  });
+
+  if (reserveError) {
+    console.error('Quota reservation failed:', reserveError);
+    return errorResponse('Could not check AI quota', 500);
+  }
+
+  if (!usageId) {
+    const resetInSeconds = Math.ceil((dayStart.getTime() + 24 * 60 * 60 * 1000 - now.getTime()) / 1000);
+    return errorResponse(
+      `Daily AI quota reached for ${request.task.replace('_', ' ')}. Try again tomorrow.`,
+      429,
+      { 'Retry-After': String(resetInSeconds) },
+      'daily_quota_exceeded'
+    );
+  }
+
+  // Forward to OpenAI with server-side model and token limits. A request that
+  // times out keeps its reservation, since OpenAI may still have run it.
+  let upstream: Response;
+  try {
+    upstream = await fetch(OPENAI_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${openAIKey}`,
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        messages: request.messages,
+        max_tokens: Math.min(request.maxTokens ?? policy.maxTokens, policy.maxTokens),
+        temperature: Math.min(Math.max(request.temperature ?? 0.3, 0), 1),
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    console.error('Upstream AI request failed:', error);
+    return errorResponse(
+      timedOut ? 'Upstream AI request timed out' : 'Could not reach the AI service',
+      timedOut ? 504 : 502
+    );
+  }
+
+  const data = await upstream.json().catch(() => ({}));
+
+  if (!upstream.ok) {
+    // OpenAI turned the request down, so it doesn't count against the quota
+    const { error: releaseError } = await adminClient.from('ai_usage').delete().eq('id', usageId);
+    if (releaseError) {
+      console.error('Failed to release AI usage reservation:', releaseError);
+    }
+
+    // Pass rate limits through so the client can back off
+    const retryAfter = upstream.headers.get('Retry-After');
+    return errorResponse(
+      `Upstream AI error: ${data.error?.message || upstream.statusText}`,
+      upstream.status === 429 || upstream.status >= 500 ? upstream.status : 502,
+      retryAfter ? { 'Retry-After': retryAfter } : {},
+      data.error?.code
+    );
+  }
+
+  const { error: usageError } = await adminClient
+    .from('ai_usage')
+    .update({ totalTokens: data.usage?.total_tokens ?? 0 })
+    .eq('id', usageId);
+  if (usageError) {
+    console.error('Failed to record AI usage:', usageError);
+  }
+
+  return jsonResponse({
+    content: data.choices?.[0]?.message?.content ?? '',
+    model: data.model,
+    usage: data.usage,
+  });
+});
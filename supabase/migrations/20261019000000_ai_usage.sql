@@ -0,0 +1,20 @@
+-- Per-user AI request log used by the ai-proxy edge function for quotas.
+-- Only the edge function (service role) writes here; users can read their own rows.
+
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  "userId" uuid not null references auth.users (id) on delete cascade,
+  task text not null,
+  "promptChars" integer not null default 0,
+  "totalTokens" integer not null default 0,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists ai_usage_user_task_created_idx
+  on public.ai_usage ("userId", task, "createdAt");
+
+alter table public.ai_usage enable row level security;
+
+create policy "Users can read their own AI usage"
+  on public.ai_usage for select
+  using (auth.uid() = "userId");
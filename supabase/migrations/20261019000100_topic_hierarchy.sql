@@ -0,0 +1,9 @@
+-- Units contain subtopics: a subtopic points at its unit through "parentId".
+-- Deleting a unit deletes its subtopics with it.
+
+alter table public.topics
+  add column if not exists "parentId" uuid references public.topics (id) on delete cascade,
+  add column if not exists "learningObjectives" text[] not null default '{}';
+
+create index if not exists topics_parent_idx
+  on public.topics ("parentId");
@@ -0,0 +1,5 @@
+-- Dated plan extracted from the syllabus: first day of classes, the weeks each
+-- topic is taught in and assessment dates (see CourseSchedule in src/types).
+
+alter table public.courses
+  add column if not exists schedule jsonb;
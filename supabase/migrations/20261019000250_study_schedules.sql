@@ -0,0 +1,42 @@
+-- Study preferences (StudySchedule in src/types): the days, time of day and
+-- frequency quizzes are scheduled at. A null "courseId" is the user's default
+-- for courses without their own; nulls are not distinct so each user has at
+-- most one default and StudyScheduleService can upsert on ("userId", "courseId").
+
+create table if not exists public.study_schedules (
+  id uuid primary key default gen_random_uuid(),
+  "userId" uuid not null references auth.users (id) on delete cascade,
+  "courseId" uuid references public.courses (id) on delete cascade,
+  "studyDays" integer[] not null default '{1,2,3,4,5}',
+  "preferredTime" text not null default '18:00',
+  "quizFrequency" text not null default 'daily'
+    check ("quizFrequency" in ('daily', 'every_other_day', 'weekly')),
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now(),
+  constraint study_schedules_user_course_key unique nulls not distinct ("userId", "courseId")
+);
+
+alter table public.study_schedules enable row level security;
+
+create policy "Users can read their own study schedules"
+  on public.study_schedules for select
+  using (auth.uid() = "userId");
+
+create policy "Users can add study schedules"
+  on public.study_schedules for insert
+  with check (
+    auth.uid() = "userId"
+    and (
+      "courseId" is null
+      or exists (select 1 from public.courses c where c.id = "courseId" and c."userId" = auth.uid())
+    )
+  );
+
+create policy "Users can update their own study schedules"
+  on public.study_schedules for update
+  using (auth.uid() = "userId")
+  with check (auth.uid() = "userId");
+
+create policy "Users can delete their own study schedules"
+  on public.study_schedules for delete
+  using (auth.uid() = "userId");
@@ -0,0 +1,20 @@
+-- Keywords move out of topics.content (where they were stored as one
+-- comma-joined string) into their own array column. Existing rows are
+-- backfilled by splitting on ", " (the separator the app used) and their
+-- content is cleared so it can hold free-form topic notes.
+
+alter table public.topics
+  add column if not exists keywords text[] not null default '{}';
+
+update public.topics
+set
+  keywords = array(
+    select trim(keyword)
+    from unnest(string_to_array(content, ', ')) with ordinality as parts (keyword, position)
+    where trim(keyword) <> ''
+    order by position
+  ),
+  content = ''
+where content is not null
+  and content <> ''
+  and keywords = '{}';
@@ -0,0 +1,42 @@
+-- Spaced-repetition state per topic (ReviewState in src/types, written by
+-- ReviewService after each quiz). One row per user and topic; the row goes
+-- with its topic.
+
+create table if not exists public.topic_reviews (
+  id uuid primary key default gen_random_uuid(),
+  "userId" uuid not null references auth.users (id) on delete cascade,
+  "courseId" uuid not null references public.courses (id) on delete cascade,
+  "itemId" uuid not null references public.topics (id) on delete cascade,
+  "easeFactor" double precision not null default 2.5,
+  interval integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  "dueDate" timestamptz not null default now(),
+  "lastReviewedAt" timestamptz,
+  unique ("userId", "itemId")
+);
+
+create index if not exists topic_reviews_course_idx
+  on public.topic_reviews ("userId", "courseId");
+
+alter table public.topic_reviews enable row level security;
+
+create policy "Users can read their own topic reviews"
+  on public.topic_reviews for select
+  using (auth.uid() = "userId");
+
+create policy "Users can add reviews for their own courses"
+  on public.topic_reviews for insert
+  with check (
+    auth.uid() = "userId"
+    and exists (select 1 from public.courses c where c.id = "courseId" and c."userId" = auth.uid())
+  );
+
+create policy "Users can update their own topic reviews"
+  on public.topic_reviews for update
+  using (auth.uid() = "userId")
+  with check (auth.uid() = "userId");
+
+create policy "Users can delete their own topic reviews"
+  on public.topic_reviews for delete
+  using (auth.uid() = "userId");
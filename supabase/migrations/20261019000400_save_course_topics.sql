@@ -0,0 +1,122 @@
+-- Saves a course's topic list as a diff in one transaction (see planTopicSave
+-- in src/services/topics/topicMerge.ts). Entries with an id update that topic
+-- in place so quiz questions, reviews and schedules linked to it survive;
+-- entries without one are inserted; topics missing from the list are deleted.
+-- If any statement fails the whole save rolls back and the course keeps its
+-- previous topics.
+--
+-- p_topics: [{ id, key, parentKey, title, content, keywords,
+--              learningObjectives, orderIndex, weeks: { start, end } | null }]
+-- in list order, parents before their subtopics.
+-- p_schedule: new start date and assessments, or null to keep the current ones.
+-- Returns { topics: [...saved rows in order], schedule }.
+
+create or replace function public.save_course_topics(
+  p_course_id uuid,
+  p_topics jsonb,
+  p_schedule jsonb default null
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  entry jsonb;
+  topic_id uuid;
+  parent_id uuid;
+  saved_ids jsonb := '{}'::jsonb; -- entry key -> saved topic id
+  kept_ids uuid[] := '{}';
+  removed_ids uuid[];
+  topic_weeks jsonb := '[]'::jsonb;
+  existing_schedule jsonb;
+  new_schedule jsonb;
+  saved_topics jsonb;
+begin
+  select schedule into existing_schedule
+  from public.courses
+  where id = p_course_id and "userId" = auth.uid();
+
+  if not found then
+    raise exception 'Course not found or access denied' using errcode = '42501';
+  end if;
+
+  for entry in select value from jsonb_array_elements(coalesce(p_topics, '[]'::jsonb))
+  loop
+    parent_id := case
+      when entry->>'parentKey' is null then null
+      else (saved_ids->>(entry->>'parentKey'))::uuid
+    end;
+    topic_id := null;
+
+    if entry->>'id' is not null then
+      update public.topics
+      set
+        title = entry->>'title',
+        content = coalesce(entry->>'content', ''),
+        keywords = array(select jsonb_array_elements_text(coalesce(entry->'keywords', '[]'::jsonb))),
+        "orderIndex" = (entry->>'orderIndex')::int,
+        "parentId" = parent_id,
+        "learningObjectives" = array(select jsonb_array_elements_text(coalesce(entry->'learningObjectives', '[]'::jsonb)))
+      where id = (entry->>'id')::uuid and "courseId" = p_course_id
+      returning id into topic_id;
+    end if;
+
+    -- New topic, or one that was deleted since the list was loaded
+    if topic_id is null then
+      insert into public.topics (
+        "courseId", title, content, keywords, "orderIndex", "parentId", "learningObjectives", "createdAt"
+      )
+      values (
+        p_course_id,
+        entry->>'title',
+        coalesce(entry->>'content', ''),
+        array(select jsonb_array_elements_text(coalesce(entry->'keywords', '[]'::jsonb))),
+        (entry->>'orderIndex')::int,
+        parent_id,
+        array(select jsonb_array_elements_text(coalesce(entry->'learningObjectives', '[]'::jsonb))),
+        now()
+      )
+      returning id into topic_id;
+    end if;
+
+    saved_ids := saved_ids || jsonb_build_object(entry->>'key', topic_id);
+    kept_ids := kept_ids || topic_id;
+
+    if jsonb_typeof(entry->'weeks') = 'object' then
+      topic_weeks := topic_weeks || jsonb_build_array(jsonb_build_object(
+        'topicId', topic_id,
+        'startWeek', (entry->'weeks'->>'start')::int,
+        'endWeek', (entry->'weeks'->>'end')::int
+      ));
+    end if;
+  end loop;
+
+  -- Deleted last: removing a unit first would cascade to subtopics that were
+  -- moved to another unit in this save
+  with removed as (
+    delete from public.topics
+    where "courseId" = p_course_id and not (id = any(kept_ids))
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into removed_ids from removed;
+
+  delete from public.topic_reviews
+  where "courseId" = p_course_id and "itemId"::text = any(removed_ids::text[]);
+
+  new_schedule := (
+    coalesce(p_schedule, existing_schedule, '{"startDate": null, "assessments": []}'::jsonb) - 'topicWeeks'
+  ) || jsonb_build_object('topicWeeks', topic_weeks);
+
+  update public.courses
+  set "topicsExtracted" = true, schedule = new_schedule, "updatedAt" = now()
+  where id = p_course_id;
+
+  select coalesce(jsonb_agg(to_jsonb(t) order by t."orderIndex"), '[]'::jsonb) into saved_topics
+  from public.topics t
+  where t."courseId" = p_course_id;
+
+  return jsonb_build_object('topics', saved_topics, 'schedule', new_schedule);
+end;
+$$;
+
+grant execute on function public.save_course_topics(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,36 @@
+-- Original syllabus files, kept in a private Storage bucket so they can be
+-- viewed again from the course. Objects live under <userId>/<courseId>/ and
+-- courses."syllabusUrl" holds the path of the course's current syllabus; the
+-- app opens it through a short-lived signed URL. CourseService.deleteCourse
+-- removes a course's files before the course.
+
+alter table public.courses
+  add column if not exists "syllabusUrl" text;
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('syllabi', 'syllabi', false, 10485760)
+on conflict (id) do nothing;
+
+create policy "Users can read their own syllabi"
+  on storage.objects for select
+  using (bucket_id = 'syllabi' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload syllabi to their own courses"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'syllabi'
+    and (storage.foldername(name))[1] = auth.uid()::text
+    and exists (
+      select 1 from public.courses c
+      where c.id::text = (storage.foldername(name))[2] and c."userId" = auth.uid()
+    )
+  );
+
+create policy "Users can replace their own syllabi"
+  on storage.objects for update
+  using (bucket_id = 'syllabi' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'syllabi' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own syllabi"
+  on storage.objects for delete
+  using (bucket_id = 'syllabi' and (storage.foldername(name))[1] = auth.uid()::text);
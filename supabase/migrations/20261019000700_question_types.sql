@@ -0,0 +1,41 @@
+-- Quiz questions come in several types (QuestionType in src/types). The
+-- fields that differ by type (options, answer key, rubric, ...) move into a
+-- "details" object, and the user's answer into "response", both shaped like
+-- the question's type. "grade" holds the score each answer was given:
+-- { score 0-1, correct, feedback? }. Short answers are graded by the model
+-- against the rubric before submitting; a short answer left ungraded (the
+-- model was unreachable) keeps a null grade.
+
+alter table public.quiz_questions
+  add column if not exists type text not null default 'multiple_choice',
+  add column if not exists details jsonb,
+  add column if not exists response jsonb,
+  add column if not exists grade jsonb;
+
+-- Existing questions are all single-answer multiple choice
+update public.quiz_questions
+set details = jsonb_build_object('options', to_jsonb(options), 'correctAnswer', "correctAnswer")
+where details is null;
+
+update public.quiz_questions
+set
+  response = jsonb_build_object('type', 'multiple_choice', 'selected', "selectedAnswer"),
+  grade = jsonb_build_object(
+    'score', case when "selectedAnswer" = "correctAnswer" then 1 else 0 end,
+    'correct', "selectedAnswer" = "correctAnswer"
+  )
+where "selectedAnswer" is not null and response is null;
+
+alter table public.quiz_questions
+  alter column details set not null,
+  drop column if exists options,
+  drop column if exists "correctAnswer",
+  drop column if exists "selectedAnswer";
+
+alter table public.quiz_questions
+  drop constraint if exists quiz_questions_type_check;
+
+alter table public.quiz_questions
+  add constraint quiz_questions_type_check check (
+    type in ('multiple_choice', 'true_false', 'multi_select', 'fill_blank', 'ordering', 'matching', 'short_answer')
+  );
@@ -0,0 +1,37 @@
+-- Per-topic mastery estimates for adaptive difficulty (see
+-- AdaptiveDifficulty in src/services/scheduling/adaptiveDifficulty.ts).
+-- "ability" is on a logit scale: the chance of answering a question right is
+-- sigmoid(ability - question difficulty), with easy/medium/hard at -1/0/1.
+-- A topic's estimate is deleted with the topic.
+
+create table if not exists public.topic_mastery (
+  id uuid primary key default gen_random_uuid(),
+  "userId" uuid not null references auth.users (id) on delete cascade,
+  "courseId" uuid not null references public.courses (id) on delete cascade,
+  "topicId" uuid not null references public.topics (id) on delete cascade,
+  ability double precision not null default 0,
+  "answerCount" integer not null default 0,
+  "updatedAt" timestamptz not null default now(),
+  unique ("userId", "topicId")
+);
+
+create index if not exists topic_mastery_course_idx
+  on public.topic_mastery ("userId", "courseId");
+
+alter table public.topic_mastery enable row level security;
+
+create policy "Users can read their own topic mastery"
+  on public.topic_mastery for select
+  using (auth.uid() = "userId");
+
+create policy "Users can add mastery for their own courses"
+  on public.topic_mastery for insert
+  with check (
+    auth.uid() = "userId"
+    and exists (select 1 from public.courses c where c.id = "courseId" and c."userId" = auth.uid())
+  );
+
+create policy "Users can update their own topic mastery"
+  on public.topic_mastery for update
+  using (auth.uid() = "userId")
+  with check (auth.uid() = "userId");
@@ -0,0 +1,60 @@
+-- Saves a quiz's graded answers and marks it completed in one transaction
+-- (QuizService.submitQuizAnswers). The quiz row is locked first, so a quiz
+-- can only be completed once: a second submit, even a concurrent one, fails
+-- and leaves the first answers in place.
+--
+-- p_answers: [{ id, response, grade, timeSpent }], one per question; a null
+-- grade is a short answer the model couldn't grade.
+-- The score is the mean grade of the graded answers as a percentage, or null
+-- while none of them are graded.
+
+create or replace function public.complete_quiz(
+  p_quiz_id uuid,
+  p_answers jsonb,
+  p_time_spent integer
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  entry jsonb;
+  completed_at timestamptz;
+  quiz_score integer;
+begin
+  select q."completedAt" into completed_at
+  from public.quizzes q
+  join public.courses c on c.id = q."courseId"
+  where q.id = p_quiz_id and c."userId" = auth.uid()
+  for update of q;
+
+  if not found then
+    raise exception 'Quiz not found or access denied' using errcode = '42501';
+  end if;
+
+  if completed_at is not null then
+    raise exception 'Quiz has already been submitted' using errcode = '55000';
+  end if;
+
+  for entry in select value from jsonb_array_elements(coalesce(p_answers, '[]'::jsonb))
+  loop
+    update public.quiz_questions
+    set
+      response = nullif(entry->'response', 'null'::jsonb),
+      grade = nullif(entry->'grade', 'null'::jsonb),
+      "timeSpent" = (entry->>'timeSpent')::int
+    where id = (entry->>'id')::uuid and "quizId" = p_quiz_id;
+  end loop;
+
+  select round(avg((grade->>'score')::numeric) * 100)::int into quiz_score
+  from public.quiz_questions
+  where "quizId" = p_quiz_id and grade is not null;
+
+  update public.quizzes
+  set
+    "completedAt" = now(),
+    score = quiz_score,
+    "timeSpent" = p_time_spent
+  where id = p_quiz_id;
+end;
+$$;
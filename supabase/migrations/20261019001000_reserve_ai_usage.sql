@@ -0,0 +1,42 @@
+-- Reserves one AI request against a user's daily quota before the ai-proxy
+-- edge function forwards it. The count and the insert run under a lock per
+-- user and task, so concurrent requests can't both see room for the last
+-- request. Returns the new ai_usage row id, or null when the quota is used
+-- up; the edge function fills in the token count once the request is done.
+-- Only the edge function (service role) may call it.
+
+create or replace function public.reserve_ai_usage(
+  p_user_id uuid,
+  p_task text,
+  p_daily_limit integer,
+  p_prompt_chars integer
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  used integer;
+  usage_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_task));
+
+  select count(*) into used
+  from public.ai_usage
+  where "userId" = p_user_id
+    and task = p_task
+    and "createdAt" >= date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+
+  if used >= p_daily_limit then
+    return null;
+  end if;
+
+  insert into public.ai_usage ("userId", task, "promptChars")
+  values (p_user_id, p_task, p_prompt_chars)
+  returning id into usage_id;
+
+  return usage_id;
+end;
+$$;
+
+revoke execute on function public.reserve_ai_usage(uuid, text, integer, integer) from public, anon, authenticated;
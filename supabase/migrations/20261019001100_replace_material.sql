@@ -0,0 +1,183 @@
+-- Uploading a file a course already has (same name) replaces that material
+-- instead of adding a second copy: TopicService passes the existing
+-- material's id, its topics are diffed against the new extraction like a
+-- re-extracted syllabus (see planTopicSave), and its passages are replaced.
+-- p_material: { id?, title, kind, fileType, fileSize, passages: [{ position, heading, content }] }
+
+create policy "Users can update their own course materials"
+  on public.course_materials for update
+  using (auth.uid() = "userId")
+  with check (auth.uid() = "userId");
+
+create policy "Users can delete their own course passages"
+  on public.course_passages for delete
+  using (auth.uid() = "userId");
+
+create or replace function public.save_course_topics(
+  p_course_id uuid,
+  p_topics jsonb,
+  p_schedule jsonb default null,
+  p_material jsonb default null
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  entry jsonb;
+  topic_id uuid;
+  parent_id uuid;
+  material_id uuid;
+  saved_ids jsonb := '{}'::jsonb; -- entry key -> saved topic id
+  kept_ids uuid[] := '{}';
+  removed_ids uuid[];
+  topic_weeks jsonb := '[]'::jsonb;
+  other_weeks jsonb;
+  existing_schedule jsonb;
+  new_schedule jsonb;
+  saved_topics jsonb;
+begin
+  select schedule into existing_schedule
+  from public.courses
+  where id = p_course_id and "userId" = auth.uid();
+
+  if not found then
+    raise exception 'Course not found or access denied' using errcode = '42501';
+  end if;
+
+  if p_material is not null then
+    if p_material->>'id' is null then
+      insert into public.course_materials ("courseId", "userId", title, kind, "fileType", "fileSize")
+      values (
+        p_course_id,
+        auth.uid(),
+        p_material->>'title',
+        coalesce(p_material->>'kind', 'other'),
+        coalesce(p_material->>'fileType', ''),
+        (p_material->>'fileSize')::integer
+      )
+      returning id into material_id;
+    else
+      -- A new upload of the file: it takes the place of the old one
+      update public.course_materials
+      set
+        kind = coalesce(p_material->>'kind', kind),
+        "fileType" = coalesce(p_material->>'fileType', "fileType"),
+        "fileSize" = (p_material->>'fileSize')::integer
+      where id = (p_material->>'id')::uuid and "courseId" = p_course_id
+      returning id into material_id;
+
+      if material_id is null then
+        raise exception 'Material not found or access denied' using errcode = '42501';
+      end if;
+
+      delete from public.course_passages
+      where "materialId" = material_id;
+    end if;
+
+    insert into public.course_passages ("courseId", "materialId", "userId", position, heading, content)
+    select
+      p_course_id,
+      material_id,
+      auth.uid(),
+      (passage->>'position')::integer,
+      passage->>'heading',
+      passage->>'content'
+    from jsonb_array_elements(coalesce(p_material->'passages', '[]'::jsonb)) as passage
+    where coalesce(passage->>'content', '') <> '';
+  end if;
+
+  for entry in select value from jsonb_array_elements(coalesce(p_topics, '[]'::jsonb))
+  loop
+    parent_id := case
+      when entry->>'parentKey' is null then null
+      else (saved_ids->>(entry->>'parentKey'))::uuid
+    end;
+    topic_id := null;
+
+    if entry->>'id' is not null then
+      update public.topics
+      set
+        title = entry->>'title',
+        content = coalesce(entry->>'content', ''),
+        keywords = array(select jsonb_array_elements_text(coalesce(entry->'keywords', '[]'::jsonb))),
+        "orderIndex" = (entry->>'orderIndex')::int,
+        "parentId" = parent_id,
+        "learningObjectives" = array(select jsonb_array_elements_text(coalesce(entry->'learningObjectives', '[]'::jsonb)))
+      where id = (entry->>'id')::uuid and "courseId" = p_course_id
+      returning id into topic_id;
+    end if;
+
+    -- New topic, or one that was deleted since the list was loaded
+    if topic_id is null then
+      insert into public.topics (
+        "courseId", title, content, keywords, "orderIndex", "parentId", "learningObjectives", "materialId", "createdAt"
+      )
+      values (
+        p_course_id,
+        entry->>'title',
+        coalesce(entry->>'content', ''),
+        array(select jsonb_array_elements_text(coalesce(entry->'keywords', '[]'::jsonb))),
+        (entry->>'orderIndex')::int,
+        parent_id,
+        array(select jsonb_array_elements_text(coalesce(entry->'learningObjectives', '[]'::jsonb))),
+        material_id,
+        now()
+      )
+      returning id into topic_id;
+    end if;
+
+    saved_ids := saved_ids || jsonb_build_object(entry->>'key', topic_id);
+    kept_ids := kept_ids || topic_id;
+
+    if jsonb_typeof(entry->'weeks') = 'object' then
+      topic_weeks := topic_weeks || jsonb_build_array(jsonb_build_object(
+        'topicId', topic_id,
+        'startWeek', (entry->'weeks'->>'start')::int,
+        'endWeek', (entry->'weeks'->>'end')::int
+      ));
+    end if;
+  end loop;
+
+  -- Deleted last: removing a unit first would cascade to subtopics that were
+  -- moved to another unit in this save
+  with removed as (
+    delete from public.topics
+    where "courseId" = p_course_id
+      and not (id = any(kept_ids))
+      and (material_id is null or "materialId" = material_id)
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into removed_ids from removed;
+
+  delete from public.topic_reviews
+  where "courseId" = p_course_id and "itemId"::text = any(removed_ids::text[]);
+
+  -- Weeks of topics outside this save (other materials) are kept
+  select coalesce(jsonb_agg(weeks), '[]'::jsonb) into other_weeks
+  from jsonb_array_elements(coalesce(existing_schedule->'topicWeeks', '[]'::jsonb)) as weeks
+  where not ((weeks->>'topicId')::uuid = any(kept_ids))
+    and exists (
+      select 1 from public.topics t
+      where t.id = (weeks->>'topicId')::uuid and t."courseId" = p_course_id
+    );
+
+  new_schedule := (
+    coalesce(p_schedule, existing_schedule, '{"startDate": null, "assessments": []}'::jsonb) - 'topicWeeks'
+  ) || jsonb_build_object('topicWeeks', other_weeks || topic_weeks);
+
+  update public.courses
+  set "topicsExtracted" = true, schedule = new_schedule, "updatedAt" = now()
+  where id = p_course_id;
+
+  select coalesce(jsonb_agg(to_jsonb(t) order by t."orderIndex"), '[]'::jsonb) into saved_topics
+  from public.topics t
+  where t."courseId" = p_course_id;
+
+  return jsonb_build_object(
+    'topics', saved_topics,
+    'schedule', new_schedule,
+    'material', (select to_jsonb(m) from public.course_materials m where m.id = material_id)
+  );
+end;
+$$;